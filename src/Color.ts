@@ -1,5 +1,5 @@
 import { colorModels, colorTypes, colorSpaces, alphaDef } from "./converters.js";
-import { cache, clean, fit, normalize } from "./utils.js";
+import { cache, clean, fit, interpolate, multiplyMatrices, normalize, substituteVars, toForcedColor } from "./utils.js";
 import type {
     ComponentDefinition,
     Component,
@@ -15,9 +15,43 @@ import type {
     RandomOptions,
     ComponentOptions,
     ColorConverter,
+    ContrastFunction,
+    ContrastOptions,
+    ParseOptions,
+    ColorExpression,
+    GradientStop,
+    GradientOptions,
+    ColorScale,
+    HueInterpolationMethod,
+    InterpolationMethod,
+    MixAllOptions,
+    ForcedColorEntry,
+    CVDType,
+    SimulateOptions,
+    DistinguishabilityOptions,
+    DistinguishabilityReport,
+    GamutReport,
 } from "./types.js";
-import { EASINGS, EPSILON } from "./math.js";
-import { config } from "./config.js";
+import {
+    CVD_MATRICES,
+    CVD_SEVERITY_MATRICES,
+    DALTONIZATION_MATRICES,
+    EASINGS,
+    EPSILON,
+    contrastMethods,
+    interpolationMethods,
+} from "./math.js";
+import { config, forcedColorRoles } from "./config.js";
+
+/** The `<color>` types that only resolve in context, whose source is kept when parsing with `preserve: true`. */
+const UNRESOLVED_TYPES: string[] = [
+    "light-dark",
+    "contrast-color",
+    "color-mix",
+    "currentColor",
+    "system-color",
+    "transparent",
+] satisfies ColorType[];
 
 /**
  * The `Color` class represents a dynamic CSS color object, allowing for the manipulation
@@ -26,6 +60,7 @@ import { config } from "./config.js";
 export class Color<M extends ColorModel = ColorModel> {
     model: M;
     coords: number[];
+    expression?: ColorExpression;
 
     constructor(model: M, coords: number[] = [0, 0, 0, 0]) {
         if (model in colorModels === false) throw new Error(`Unsupported color model: '${model}'`);
@@ -43,52 +78,143 @@ export class Color<M extends ColorModel = ColorModel> {
      *
      * @template T - Color model type.
      * @param color - Color string to parse.
+     * @param options - Optional parsing options.
      * @returns A new `Color` instance.
+     *
+     * @remarks
+     * - With `preserve: true`, colors that only resolve in context (`light-dark()`, `contrast-color()`, `color-mix()`,
+     *   `currentColor`, system colors and `transparent`) keep their unresolved source in `expression`, and `to()`
+     *   re-emits it when asked for the same type. Other colors, including hex and named colors, serialize normalized.
+     * - With `vars`, `var()` references are substituted from the given custom properties before parsing,
+     *   including nested references and fallbacks. A preserved expression keeps the `var()` references as written.
+     * - Options apply to nested colors as well, e.g., `currentColor` inside `color-mix()` or a relative color.
      */
     /* eslint-disable no-unused-vars, @typescript-eslint/no-explicit-any */
-    static from(color: NamedColor): Color<"rgb">;
-    static from(color: `#${string}`): Color<"rgb">;
-    static from(color: `rgb(${string})` | `rgba(${string})`): Color<"rgb">;
-    static from(color: `hsl(${string})` | `hsla(${string})`): Color<"hsl">;
-    static from(color: `hwb(${string})`): Color<"hwb">;
-    static from(color: `lab(${string})`): Color<"lab">;
-    static from(color: `lch(${string})`): Color<"lch">;
-    static from(color: `oklab(${string})`): Color<"oklab">;
-    static from(color: `oklch(${string})`): Color<"oklch">;
-    static from(color: string): Color<any>;
-    static from<T extends ColorModel = ColorModel>(color: string): Color<T>;
-    static from<T extends ColorModel = ColorModel>(color: NamedColor | string): Color<T | any> {
+    static from(color: NamedColor, options?: ParseOptions): Color<"rgb">;
+    static from(color: `#${string}`, options?: ParseOptions): Color<"rgb">;
+    static from(color: `rgb(${string})` | `rgba(${string})`, options?: ParseOptions): Color<"rgb">;
+    static from(color: `hsl(${string})` | `hsla(${string})`, options?: ParseOptions): Color<"hsl">;
+    static from(color: `hwb(${string})`, options?: ParseOptions): Color<"hwb">;
+    static from(color: `lab(${string})`, options?: ParseOptions): Color<"lab">;
+    static from(color: `lch(${string})`, options?: ParseOptions): Color<"lch">;
+    static from(color: `oklab(${string})`, options?: ParseOptions): Color<"oklab">;
+    static from(color: `oklch(${string})`, options?: ParseOptions): Color<"oklch">;
+    static from(color: string, options?: ParseOptions): Color<any>;
+    static from<T extends ColorModel = ColorModel>(color: string, options?: ParseOptions): Color<T>;
+    static from<T extends ColorModel = ColorModel>(
+        color: NamedColor | string,
+        options: ParseOptions = {}
+    ): Color<T | any> {
         /* eslint-enable no-unused-vars, @typescript-eslint/no-explicit-any */
-        const c = clean(color);
+        const { preserve = false, vars } = options;
+        const source = clean(color);
+        const c = vars ? clean(substituteVars(color, vars)) : source;
         for (const type in colorTypes) {
             const t = type as ColorModel;
             const { parse, bridge, toBridge, isValid } = colorTypes[t];
-            if (!isValid(c)) continue;
+            if (!isValid(c, options)) continue;
 
-            const parsed = parse(c);
+            const parsed = parse(c, options);
             const coords = t in colorModels ? parsed : toBridge(parsed);
             const model = (t in colorModels ? t : bridge) as T;
-            return new Color(model, coords);
+            const result = new Color(model, coords);
+            if (preserve && UNRESOLVED_TYPES.includes(type)) {
+                result.expression = { type: type as ColorType, source: isValid(source, options) ? source : c };
+            }
+            return result;
         }
         throw new Error(`Unsupported or invalid color format: '${color}'.`);
     }
 
+    /**
+     * Resolves a color string for both the light and the dark color scheme.
+     *
+     * @param color - Color string to parse, which may contain `light-dark()` or system colors at any depth.
+     * @param options - Optional parsing options; `theme` is overridden for each scheme.
+     * @returns The color resolved for each scheme.
+     */
+    static fromSchemes(color: string, options: ParseOptions = {}) {
+        return {
+            light: Color.from(color, { ...options, theme: "light" }),
+            dark: Color.from(color, { ...options, theme: "dark" }),
+        };
+    }
+
+    /**
+     * Determines whether a color string resolves differently in the light and the dark color scheme.
+     *
+     * @param color - Color string to check.
+     * @param options - Optional parsing options; `theme` is overridden for each scheme.
+     * @returns `true` if the light and dark resolutions differ, otherwise `false`.
+     */
+    static isSchemeDependent(color: string, options: ParseOptions = {}) {
+        const { light, dark } = Color.fromSchemes(color, options);
+        return !light.equals(dark);
+    }
+
+    /**
+     * Maps authored colors to the system colors browsers use for them in forced colors mode.
+     *
+     * @param colors - Authored colors keyed by name, each with the role it plays in the page.
+     * @param options - Optional parsing options, e.g., `theme` and `systemColors` to preview a specific palette.
+     * @returns The forced color for each name, in the `rgb` model.
+     * @throws If a role is not one of `forcedColorRoles`.
+     *
+     * @remarks
+     * - Authored system colors are kept as they are, since forced colors mode does not override them.
+     * - Backgrounds keep the alpha of the authored color; every other role is fully opaque.
+     *
+     * @see {@link https://www.w3.org/TR/css-color-adjust-1/#forced-colors-properties|CSS Color Adjustment 1, Properties Affected by Forced Colors Mode}
+     */
+    static forceColors<K extends string>(colors: Record<K, ForcedColorEntry>, options: ParseOptions = {}) {
+        const result = {} as Record<K, Color<"rgb">>;
+
+        for (const key in colors) {
+            const { color, role } = colors[key];
+            const systemColor = forcedColorRoles[role];
+            if (!systemColor) {
+                throw new Error(
+                    `Invalid forced color role: must be ${Object.keys(forcedColorRoles).join(", ")}, received '${role}'.`
+                );
+            }
+
+            const authored = Color.from(color, options).in("rgb");
+            if (colorTypes["system-color"].isValid(clean(color), options)) {
+                result[key] = authored;
+                continue;
+            }
+
+            const forced = Color.from(systemColor, options).in("rgb");
+            result[key] = role === "background" ? forced.with({ alpha: authored.coords[3] }) : forced;
+        }
+
+        return result;
+    }
+
     /**
      * Returns the detected color type, or `undefined` if unrecognized.
      *
      * @param color - Color string to analyze.
      * @param strict - Whether to validate full round-trip conversion.
+     * @param options - Optional parsing options, e.g., `systemColors` for custom system colors.
      */
-    static type(color: string, strict = false) {
-        const c = clean(color);
+    static type(color: string, strict = false, options: ParseOptions = {}) {
+        const { vars } = options;
+        let c: string;
+        try {
+            c = clean(vars ? substituteVars(color, vars) : color);
+        } catch {
+            return undefined;
+        }
+
         for (const type in colorTypes) {
             const t = type as ColorType;
             const { isValid, bridge, parse, toBridge } = colorTypes[t];
-            if (!isValid(c)) continue;
+            if (!isValid(c, options)) continue;
 
             if (!strict) return t;
             try {
-                const parsed = parse(c);
+                const parsed = parse(c, options);
                 const coords = t in colorModels ? parsed : toBridge(parsed);
                 const model = (type in colorModels ? type : bridge) as ColorModel;
                 return typeof new Color(model, coords) === "object" ? t : undefined;
@@ -104,25 +230,27 @@ export class Color<M extends ColorModel = ColorModel> {
      *
      * @param color - Color string to check.
      * @param type - Optional color type.
+     * @param options - Optional parsing options, e.g., `systemColors` for custom system colors.
      * @returns `true` if valid, otherwise `false`.
      */
-    static isValid(color: string, type?: ColorType): boolean; // eslint-disable-line no-unused-vars
-    static isValid(color: string, type?: string): boolean; // eslint-disable-line no-unused-vars
-    static isValid(color: string, type?: ColorType | string) {
+    static isValid(color: string, type?: ColorType, options?: ParseOptions): boolean; // eslint-disable-line no-unused-vars
+    static isValid(color: string, type?: string, options?: ParseOptions): boolean; // eslint-disable-line no-unused-vars
+    static isValid(color: string, type?: ColorType | string, options: ParseOptions = {}) {
         try {
             if (type) {
                 const t = type?.trim().toLowerCase() as ColorType;
-                const c = clean(color);
+                const { vars } = options;
+                const c = clean(vars ? substituteVars(color, vars) : color);
 
                 const { isValid, bridge, parse, toBridge } = colorTypes[t];
-                if (!isValid(c)) return false;
+                if (!isValid(c, options)) return false;
 
-                const parsed = parse(c);
+                const parsed = parse(c, options);
                 const coords = t in colorModels ? parsed : toBridge(parsed);
                 const model = (t in colorModels ? t : bridge) as ColorModel;
                 return !!new Color(model, coords);
             }
-            return !!Color.from(color);
+            return !!Color.from(color, options);
         } catch {
             return false;
         }
@@ -198,25 +326,383 @@ export class Color<M extends ColorModel = ColorModel> {
         return new Color(model, coords);
     }
 
+    /**
+     * Mixes any number of colors by weight, as `color-mix()` does.
+     *
+     * @param colors - The colors to mix.
+     * @param weights - The weight of each color, between 0 and 1. Omitted weights share what is left of 1.
+     * @param options - Options for how the colors are mixed.
+     * @returns A new `Color` instance in the mixing model.
+     * @throws If fewer than two colors are given, a weight is out of range, or all weights are 0.
+     *
+     * @remarks
+     * Weights are normalized like `color-mix()` percentages: if they sum to more than 1 they are scaled down,
+     * and if they sum to less than 1 they are scaled up and the result's alpha is multiplied by their sum.
+     * The colors are then mixed in order, each into the running result by its share of the weight so far.
+     *
+     * @see {@link https://www.w3.org/TR/css-color-5/#color-mix-percent-norm|CSS Color 5, Percentage Normalization}
+     */
+    static mixAll(colors: (Color | string)[], weights: (number | undefined)[] = [], options: MixAllOptions = {}) {
+        const { in: model = "oklab", ...mixOptions } = options;
+
+        if (colors.length < 2) throw new Error("Mixing requires at least two colors.");
+        if (weights.length > colors.length) throw new Error("There are more weights than colors to mix.");
+
+        const given = weights.filter((w): w is number => w !== undefined);
+        if (given.some((w) => !(w >= 0 && w <= 1))) throw new Error("Weights must be between 0 and 1.");
+
+        const omitted = colors.length - given.length;
+        const specified = given.reduce((sum, w) => sum + w, 0);
+        const share = omitted > 0 ? Math.max(0, 1 - specified) / omitted : 0;
+        const resolved = colors.map((_, i) => weights[i] ?? share);
+
+        const total = resolved.reduce((sum, w) => sum + w, 0);
+        if (total <= 0) throw new Error("Sum of percentages cannot be 0%.");
+
+        const alphaMultiplier = Math.min(1, total);
+
+        let result = (typeof colors[0] === "string" ? Color.from(colors[0]) : colors[0]).in(model) as Color;
+        let accumulated = resolved[0] / total;
+
+        for (let i = 1; i < colors.length; i++) {
+            const weight = resolved[i] / total;
+            accumulated += weight;
+            const amount = accumulated > 0 ? weight / accumulated : 0;
+            result = result.mix(colors[i], { ...mixOptions, amount });
+        }
+
+        return result.with({ alpha: (a) => (isNaN(a) ? a : a * alphaMultiplier) }, false);
+    }
+
+    /**
+     * Interpolates a gradient between positioned color stops.
+     *
+     * @param stops - The color stops, optionally with positions between 0 and 1.
+     * @param options - Gradient interpolation options.
+     * @returns The sampled colors and an equivalent `linear-gradient()` string.
+     * @throws If fewer than two stops are given, or the model or hue interpolation method is invalid.
+     *
+     * @remarks
+     * - Missing stop positions are fixed up as in CSS Images 4: the first and last default to 0 and 1,
+     *   positions smaller than a preceding one are raised to it, and runs of missing positions are spread evenly.
+     * - By default, each pair of adjacent stops is interpolated with `mix()`, the same interpolation
+     *   `color-mix()` uses, including premultiplied alpha. The `interpolation` option switches to a spline
+     *   through all stops instead.
+     *
+     * @see {@link https://www.w3.org/TR/css-images-4/#color-stop-fixup|CSS Images Module Level 4}
+     */
+    static gradient(stops: GradientStop[], options: GradientOptions = {}) {
+        const { in: model = "oklab", hue, steps = 10, easing, interpolation } = options;
+
+        if (stops.length < 2) throw new Error("A gradient requires at least two color stops.");
+        if (!Number.isInteger(steps) || steps < 2) throw new Error("Gradient steps must be an integer of at least 2.");
+        if (model === "rgb") throw new Error(`RGB model is not allowed in gradients. Use "srgb" instead.`);
+
+        const converter = colorModels[model] as ColorModelConverter | undefined;
+        if (!converter) throw new Error(`Unsupported color model: '${model}'`);
+        if (hue && !Object.values(converter.components).some((c) => c.value === "hue")) {
+            throw new Error(`Hue interpolation not supported in ${model} space.`);
+        }
+
+        const entries = stops.map((stop) => {
+            const { color, position } =
+                typeof stop === "string" || stop instanceof Color ? { color: stop, position: undefined } : stop;
+            return { color: (typeof color === "string" ? Color.from(color) : color).in(model), position };
+        });
+
+        const positions = entries.map(({ position }) => position);
+        if (positions[0] === undefined) positions[0] = 0;
+        if (positions[positions.length - 1] === undefined) positions[positions.length - 1] = 1;
+
+        let max = -Infinity;
+        for (let i = 0; i < positions.length; i++) {
+            const p = positions[i];
+            if (p === undefined) continue;
+            max = Math.max(max, p);
+            positions[i] = max;
+        }
+
+        for (let i = 1; i < positions.length; i++) {
+            if (positions[i] !== undefined) continue;
+            let end = i;
+            while (positions[end] === undefined) end++;
+            const from = positions[i - 1] as number;
+            const to = positions[end] as number;
+            for (let j = i; j < end; j++) positions[j] = from + ((to - from) * (j - i + 1)) / (end - i + 1);
+        }
+
+        const resolved = positions as number[];
+        const last = resolved.length - 1;
+        const first = Math.min(0, resolved[0]);
+        const range = Math.max(1, resolved[last]) - first;
+
+        const colors = Array.from({ length: steps }, (_, i) =>
+            interpolate(
+                entries.map(({ color }) => color),
+                resolved,
+                first + (range * i) / (steps - 1),
+                { in: model, hue, easing, interpolation }
+            )
+        );
+
+        const method = hue ? ` ${hue} hue` : "";
+        const list = entries.map(({ color }, i) => `${color.toString()} ${+(resolved[i] * 100).toFixed(3)}%`);
+        const css = `linear-gradient(in ${model}${method}, ${list.join(", ")})`;
+
+        return { colors, css };
+    }
+
+    /**
+     * Creates a color scale that maps numbers onto colors.
+     *
+     * @param colors - The colors of the scale, from start to end.
+     * @returns A callable scale, configurable through chained setters.
+     * @throws If fewer than two colors are given.
+     *
+     * @example
+     * ```ts
+     * const scale = Color.scale(["#fff", "oklch(0.5 0.2 260)", "black"]).domain([0, 50, 100]).mode("oklab");
+     * scale(25).to("hex-color");
+     * scale.classes(5).colors(5);
+     * ```
+     *
+     * @remarks
+     * - The domain defaults to `[0, 1]`. A two-value domain spreads the colors evenly, otherwise
+     *   it must provide one position per color.
+     * - Classes quantize values, giving each class a single color spread evenly across the scale.
+     * - Padding and gamma are applied to the normalized position, then the colors are interpolated
+     *   with `mix()`, or with a spline through all colors when `interpolation()` is set.
+     */
+    static scale(colors: (Color | string)[]) {
+        if (colors.length < 2) throw new Error("A color scale requires at least two colors.");
+
+        const stops = colors.map((c) => (typeof c === "string" ? Color.from(c) : c));
+
+        let domain = [0, 1];
+        let model: ColorModel = "oklab";
+        let breaks: number[] | undefined;
+        let classCount: number | undefined;
+        let pad: [number, number] = [0, 0];
+        let gamma = 1;
+        let hue: HueInterpolationMethod = "shorter";
+        let easing: NonNullable<MixOptions["easing"]> = "linear";
+        let interpolation: InterpolationMethod = "linear";
+
+        const min = () => domain[0];
+        const max = () => domain[domain.length - 1];
+
+        const positions = () => {
+            if (domain.length === stops.length) return domain.map((d) => (d - min()) / (max() - min() || 1));
+            return stops.map((_, i) => i / (stops.length - 1));
+        };
+
+        const getBreaks = () => {
+            if (breaks) return breaks;
+            if (classCount === undefined) return undefined;
+            return Array.from({ length: classCount + 1 }, (_, i) => min() + ((max() - min()) * i) / classCount!);
+        };
+
+        const scale = ((value: number) => {
+            const b = getBreaks();
+            let t: number;
+
+            if (b) {
+                let i = 0;
+                while (i < b.length - 2 && value >= b[i + 1]) i++;
+                t = b.length > 2 ? i / (b.length - 2) : 0;
+            } else {
+                t = (value - min()) / (max() - min() || 1);
+            }
+
+            t = Math.min(1, Math.max(0, t));
+            t = pad[0] + t * (1 - pad[0] - pad[1]);
+            t = Math.pow(t, 1 / gamma);
+
+            return interpolate(stops, positions(), t, { in: model, hue, easing, interpolation });
+        }) as ColorScale;
+
+        scale.domain = (d: number[]) => {
+            if (d.length !== 2 && d.length !== stops.length) {
+                throw new Error(`A scale domain must have 2 or ${stops.length} values, received ${d.length}.`);
+            }
+            if (d.some((v, i) => i > 0 && v < d[i - 1])) throw new Error("A scale domain must be ascending.");
+            domain = d.slice();
+            return scale;
+        };
+
+        scale.mode = (m: ColorModel) => {
+            if (!(m in colorModels)) throw new Error(`Unsupported color model: '${m}'`);
+            model = m;
+            return scale;
+        };
+
+        scale.classes = (c: number | number[]) => {
+            if (Array.isArray(c)) {
+                if (c.length < 2) throw new Error("Class breaks must contain at least two values.");
+                breaks = c.slice().sort((a, b) => a - b);
+                classCount = undefined;
+            } else {
+                if (!Number.isInteger(c) || c < 1) throw new Error("The number of classes must be a positive integer.");
+                classCount = c;
+                breaks = undefined;
+            }
+            return scale;
+        };
+
+        scale.padding = (p: number | [number, number]) => {
+            const [start, end] = Array.isArray(p) ? p : [p, p];
+            if (!(start >= 0 && end >= 0 && start + end < 1)) {
+                throw new Error("Padding must be non-negative on each side and sum to less than 1.");
+            }
+            pad = [start, end];
+            return scale;
+        };
+
+        scale.gamma = (g: number) => {
+            if (!(g > 0)) throw new Error("Gamma must be a positive number.");
+            gamma = g;
+            return scale;
+        };
+
+        scale.hue = (method: HueInterpolationMethod) => {
+            hue = method;
+            return scale;
+        };
+
+        scale.easing = (e: NonNullable<MixOptions["easing"]>) => {
+            easing = e;
+            return scale;
+        };
+
+        scale.interpolation = (method: InterpolationMethod) => {
+            if (method !== "linear" && !(method in interpolationMethods)) {
+                throw new Error(`Invalid interpolation method: '${method}'.`);
+            }
+            interpolation = method;
+            return scale;
+        };
+
+        scale.colors = (count: number) => {
+            if (!Number.isInteger(count) || count < 2) throw new Error("Color count must be an integer of at least 2.");
+            return Array.from({ length: count }, (_, i) => scale(min() + ((max() - min()) * i) / (count - 1)));
+        };
+
+        return scale;
+    }
+
+    /**
+     * Generates a Material Design tonal palette, keeping the hue and chroma of a color while varying its tone.
+     *
+     * @param color - The key color of the palette (instance or string).
+     * @param tones - The HCT tones to generate, from 0 (black) to 100 (white).
+     * @returns One `hct` color per tone, in the same order.
+     *
+     * @remarks
+     * Tones whose chroma does not fit in sRGB are solved with the `"hct-chroma"` fit method, which lowers the chroma
+     * while keeping hue and tone, so every color is displayable.
+     *
+     * @see {@link https://m3.material.io/styles/color/system/how-the-system-works|Material Design 3, Tonal palettes}
+     */
+    static tonalPalette(color: Color | string, tones: number[] = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100]) {
+        const [H, C] = (typeof color === "string" ? Color.from(color) : color)
+            .in("hct")
+            .toArray({ fit: "none", precision: null });
+
+        return tones.map((tone) => {
+            if (!(tone >= 0 && tone <= 100)) throw new Error(`Tones must be between 0 and 100, received ${tone}.`);
+            return new Color("hct", [H, C, tone]).within("srgb", "hct-chroma");
+        });
+    }
+
+    /**
+     * Reports how distinguishable the colors of a palette are under normal and color-deficient vision.
+     *
+     * @param palette - The colors to check (instances or strings).
+     * @param options - Options for the report.
+     * @returns For each vision, the minimum pairwise ΔE and the offending pairs, sorted from least to most distinct.
+     * @throws If the palette has fewer than two colors or the ΔE method is unknown.
+     *
+     * @remarks
+     * - Protan, deutan and tritan vision are simulated at full severity with {@link simulate}.
+     * - With a `threshold`, every pair whose ΔE falls below it is offending; otherwise only the closest pairs are.
+     * - Pairs hold the palette indices of both colors, so they can be traced back to the input.
+     */
+    static distinguishability(palette: (Color | string)[], options: DistinguishabilityOptions = {}) {
+        const { method = "deltaEOK", threshold } = options;
+        if (palette.length < 2) throw new Error("A distinguishability report requires at least two colors.");
+
+        const deltaEMethods = ["deltaEOK", "deltaE76", "deltaE94", "deltaE2000", "deltaEJz", "deltaEITP"];
+        if (!deltaEMethods.includes(method)) {
+            throw new Error(`Invalid ΔE method: must be ${deltaEMethods.join(", ")}, received '${method}'.`);
+        }
+
+        const colors = palette.map((c) => (typeof c === "string" ? Color.from(c) : c));
+        const visions = {
+            normal: colors,
+            protanopia: colors.map((c) => c.simulate("protanopia")),
+            deuteranopia: colors.map((c) => c.simulate("deuteranopia")),
+            tritanopia: colors.map((c) => c.simulate("tritanopia")),
+        };
+
+        const report = {} as DistinguishabilityReport;
+        for (const [vision, seen] of Object.entries(visions)) {
+            const pairs: DistinguishabilityReport["normal"]["pairs"] = [];
+            for (let i = 0; i < seen.length; i++) {
+                for (let j = i + 1; j < seen.length; j++) {
+                    pairs.push({ indices: [i, j], deltaE: seen[i][method](seen[j]) });
+                }
+            }
+
+            pairs.sort((a, b) => a.deltaE - b.deltaE);
+            const min = pairs[0].deltaE;
+            const limit = threshold ?? min + EPSILON;
+            report[vision as keyof DistinguishabilityReport] = {
+                min,
+                pairs: pairs.filter(({ deltaE }) => (threshold === undefined ? deltaE <= limit : deltaE < limit)),
+            };
+        }
+
+        return report;
+    }
+
     /**
      * Converts this color to a specified format.
      *
      * @param type - Target output format.
      * @param options - Optional formatting options.
      * @returns The formatted color string.
+     * @throws If the type is unsupported, or can only be output from a preserved expression (e.g., `light-dark`).
+     *
+     * @remarks
+     * - If the color was parsed with `preserve: true` and `type` matches its preserved expression,
+     *   the original source is re-emitted instead of the resolved value.
+     * - In forced colors mode, the color is output as the nearest system color for `config.theme`.
      */
     to(type: string, options?: FormattingOptions): string; // eslint-disable-line no-unused-vars
     to(type: OutputType, options?: FormattingOptions): string; // eslint-disable-line no-unused-vars
     to(type: OutputType | string, options: FormattingOptions = {}) {
-        const t = type.toLowerCase() as OutputType;
-        const { legacy = false, fit = config.defaults.fit, precision, units = false } = options;
+        const name = type.toLowerCase();
+        const t = (Object.keys(colorTypes).find((key) => key.toLowerCase() === name) ?? name) as OutputType;
+        const {
+            legacy = false,
+            fit = config.defaults.fit,
+            precision,
+            headroom,
+            units = false,
+            dynamicRangeLimit,
+            forcedColors = config.forcedColors,
+        } = options;
         const conv = colorTypes[t];
         if (!conv) throw new Error(`Unsupported color type: '${t}'.`);
 
         const { fromBridge, bridge, format } = conv;
         if (!fromBridge || !format) throw new Error(`Invalid output type: '${t}'.`);
 
-        const fmt = (coords: number[]) => format(coords, { legacy, fit, precision, units });
+        if (this.expression?.type === t) return this.expression.source;
+        if (forcedColors) return toForcedColor(this as Color).to(t, { ...options, forcedColors: false });
+
+        const fmt = (coords: number[]) =>
+            format(coords, { legacy, fit, precision, headroom, units, dynamicRangeLimit });
 
         if (t === this.model) return fmt(this.coords);
         if (t in colorModels) return fmt(this.in(t).toArray({ fit: "none", precision: null }));
@@ -299,11 +785,23 @@ export class Color<M extends ColorModel = ColorModel> {
      *
      * @param options - Optional formatting options.
      * @returns The formatted color string.
+     *
+     * @remarks
+     * In forced colors mode, the color is output as the nearest system color for `config.theme`.
      */
     toString(options: FormattingOptions = {}) {
         const { format } = colorTypes[this.model] as ColorConverter;
-        const { legacy = false, fit = config.defaults.fit, precision, units = false } = options;
-        return format?.(this.coords, { legacy, fit, precision, units }) as string;
+        const {
+            legacy = false,
+            fit = config.defaults.fit,
+            precision,
+            headroom,
+            units = false,
+            dynamicRangeLimit,
+            forcedColors = config.forcedColors,
+        } = options;
+        const { coords } = forcedColors ? toForcedColor(this as Color).in(this.model) : this;
+        return format?.(coords, { legacy, fit, precision, headroom, units, dynamicRangeLimit }) as string;
     }
 
     /**
@@ -342,7 +840,7 @@ export class Color<M extends ColorModel = ColorModel> {
      * @throws If the model has no defined components.
      */
     toArray(options: ComponentOptions = {}) {
-        const { fit: method = config.defaults.fit, precision } = options;
+        const { fit: method = config.defaults.fit, precision, headroom } = options;
         const { model, coords } = this;
         const { components } = colorModels[model] as unknown as Record<
             string,
@@ -360,6 +858,7 @@ export class Color<M extends ColorModel = ColorModel> {
         const fitted = fit(norm, model, {
             method: method as FitMethod,
             precision,
+            headroom,
         });
         return [...fitted, coords[3]];
     }
@@ -487,6 +986,13 @@ export class Color<M extends ColorModel = ColorModel> {
      * @param options - Options for how the colors are mixed.
      * @returns A new `Color` instance representing the mixed color.
      * @throws If the color model does not have defined components.
+     *
+     * @remarks
+     * Translucent colors are mixed with premultiplied alpha, as `color-mix()` does: every component except hue
+     * is multiplied by alpha before interpolating and divided by the interpolated alpha afterwards.
+     * Set `premultiplied: false` to interpolate components and alpha independently.
+     *
+     * @see {@link https://www.w3.org/TR/css-color-4/#interpolation-alpha|CSS Color 4, Interpolating with Alpha}
      */
     mix(other: Color<ColorModel> | string, options: MixOptions = {}): Color<M> {
         const { model } = this;
@@ -519,7 +1025,8 @@ export class Color<M extends ColorModel = ColorModel> {
             return { a, b, ok: true };
         };
 
-        const hueIndex = components.h?.index ?? -1;
+        const hueIndex =
+            (Object.values(components) as ComponentDefinition[]).find((c) => c.value === "hue")?.index ?? -1;
 
         for (const key in components) {
             const { index, value } = components[key];
@@ -537,7 +1044,7 @@ export class Color<M extends ColorModel = ColorModel> {
             }
         }
 
-        const { hue = "shorter", amount = 0.5, easing = "linear", gamma = 1.0 } = options;
+        const { hue = "shorter", amount = 0.5, easing = "linear", gamma = 1.0, premultiplied = true } = options;
 
         const ease = typeof easing === "function" ? easing : EASINGS[easing];
         const t = ease(Math.min(1, Math.max(0, amount)));
@@ -574,7 +1081,7 @@ export class Color<M extends ColorModel = ColorModel> {
         const resolvedA = A.slice(0, 3);
         const resolvedB = B.slice(0, 3);
 
-        if (aA < 1 || aB < 1) {
+        if (premultiplied && (aA < 1 || aB < 1)) {
             const premixed = resolvedA.map((a, i) => {
                 const b = resolvedB[i];
                 return i === hueIndex ? interpHue(a, b, tt, hue) : a * aA * (1 - tt) + b * aB * tt;
@@ -594,7 +1101,7 @@ export class Color<M extends ColorModel = ColorModel> {
             i === hueIndex ? interpHue(a, resolvedB[i], tt, hue) : a + (resolvedB[i] - a) * tt
         );
 
-        return new Color(model, [...mixed, 1]);
+        return new Color(model, [...mixed, aA + (aB - aA) * tt]);
     }
 
     /**
@@ -604,8 +1111,8 @@ export class Color<M extends ColorModel = ColorModel> {
      * @returns A new Color instance with fitted values
      */
     fit(options: ComponentOptions = {}) {
-        const { fit: method = config.defaults.fit, precision } = options;
-        const fitted = this.toArray({ fit: method, precision });
+        const { fit: method = config.defaults.fit, precision, headroom } = options;
+        const fitted = this.toArray({ fit: method, precision, headroom });
         return new Color(this.model, fitted);
     }
 
@@ -614,32 +1121,140 @@ export class Color<M extends ColorModel = ColorModel> {
      *
      * @param gamut - Target color space.
      * @param method - Fitting method (default to `config.defaults.fit` value).
+     * @param headroom - HDR headroom of the content in stops, used by tone mapping methods (defaults to `config.defaults.headroom`).
      * @returns A new `Color` instance fitted to the gamut.
      * @throws If the gamut is unsupported.
      */
-    within(gamut: ColorSpace, method: FitMethod = config.defaults.fit) {
+    within(gamut: ColorSpace, method: FitMethod = config.defaults.fit, headroom = config.defaults.headroom) {
         const g = gamut.trim().toLowerCase() as ColorSpace;
         if (g in colorSpaces === false) throw new Error(`Unsupported color gamut: '${g}'.`);
 
-        const fitted = this.in(g).toArray({ fit: method, precision: null });
+        const fitted = this.in(g).toArray({ fit: method, precision: null, headroom });
         return new Color(g, fitted).in(this.model);
     }
 
     /**
-     * Calculates the WCAG 2.1 contrast ratio between this color and another.
+     * Simulates how this color is perceived with a color vision deficiency.
+     *
+     * @param type - The deficiency to simulate, e.g., `"deuteranomaly"` or `"protanopia"`.
+     * @param options - Options for the simulation.
+     * @returns A new color in the same model as seen by the affected viewer.
+     * @throws If the type is unknown or the severity is not between 0 and 1.
+     *
+     * @remarks
+     * - The simulation matrix is applied in linear sRGB, so results may fall slightly outside the sRGB gamut.
+     * - `-opia` and `-opsia` types always use full severity.
+     * - For `protanomaly`, `deuteranomaly` and `tritanomaly` the matrix is interpolated between the two nearest
+     *   severities in `CVD_SEVERITY_MATRICES`; for `achromatomaly`, between the identity and `achromatopsia`.
+     *
+     * @see {@link https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html|A Physiologically-based Model for Simulation of Color Vision Deficiency}
+     */
+    simulate(type: CVDType, options: SimulateOptions = {}) {
+        const anomalies = {
+            protanomaly: "protanopia",
+            deuteranomaly: "deuteranopia",
+            tritanomaly: "tritanopia",
+            achromatomaly: "achromatopsia",
+        } as const;
+
+        const t = type.trim().toLowerCase();
+        const isAnomaly = t in anomalies;
+        const key = (isAnomaly ? anomalies[t as keyof typeof anomalies] : t) as keyof typeof CVD_MATRICES;
+        const full = CVD_MATRICES[key];
+        if (!full) throw new Error(`Unsupported color vision deficiency: '${type}'.`);
+
+        const { severity = 1 } = options;
+        if (!(severity >= 0 && severity <= 1)) throw new Error("Severity must be between 0 and 1.");
+
+        let matrix = full;
+        if (t in CVD_SEVERITY_MATRICES) {
+            const table = CVD_SEVERITY_MATRICES[t as keyof typeof CVD_SEVERITY_MATRICES];
+            const i = Math.min(Math.floor(severity * 10), table.length - 2);
+            const w = severity * 10 - i;
+            matrix = table[i].map((row, r) => row.map((v, c) => v + (table[i + 1][r][c] - v) * w));
+        } else if (isAnomaly) {
+            matrix = full.map((row, i) => row.map((v, j) => severity * v + (1 - severity) * (i === j ? 1 : 0)));
+        }
+
+        const [r, g, b, alpha] = this.in("srgb-linear").toArray({ fit: "none", precision: null });
+        return new Color("srgb-linear", [...multiplyMatrices(matrix, [r, g, b]), alpha]).in(this.model);
+    }
+
+    /**
+     * Corrects this color for a color vision deficiency by shifting the information the viewer cannot perceive
+     * into channels they can.
+     *
+     * @param type - The deficiency to correct for, e.g., `"deuteranopia"` or `"protanomaly"`.
+     * @param options - Options for the simulation the correction is based on.
+     * @returns A new color in the same model, which may fall outside the sRGB gamut.
+     * @throws If the type is unknown or achromatic, or the severity is not between 0 and 1.
+     *
+     * @remarks
+     * The difference between this color and its {@link simulate|simulation} is computed in linear sRGB,
+     * redistributed with the matching matrix in `DALTONIZATION_MATRICES`, and added back to the color.
+     *
+     * @see {@link https://daltonize.org/|Daltonize}
+     */
+    daltonize(type: CVDType, options: SimulateOptions = {}) {
+        const t = type.trim().toLowerCase();
+        const key = t.replace(/omaly$/, "opia") as keyof typeof DALTONIZATION_MATRICES;
+        const errorMatrix = DALTONIZATION_MATRICES[key];
+        if (!errorMatrix) throw new Error(`Unsupported color vision deficiency for daltonization: '${type}'.`);
+
+        const coordsOptions = { fit: "none", precision: null } as const;
+        const original = this.in("srgb-linear").toArray(coordsOptions);
+        const simulated = this.simulate(t as CVDType, options)
+            .in("srgb-linear")
+            .toArray(coordsOptions);
+
+        const error = original.slice(0, 3).map((v, i) => v - simulated[i]);
+        const shift = multiplyMatrices(errorMatrix, error);
+        const corrected = original.slice(0, 3).map((v, i) => v + shift[i]);
+
+        return new Color("srgb-linear", [...corrected, original[3]]).in(this.model);
+    }
+
+    /**
+     * Calculates the contrast between this color (as the foreground) and another (as the background).
      *
      * @param other - The comparison color (instance or string).
-     * @returns Contrast ratio from 1 to 21.
+     * @param options - Options for measuring contrast.
+     * @returns The contrast value on the scale of the selected algorithm (e.g., 1 to 21 for `"wcag21"`).
+     * @throws If the algorithm is not registered.
      *
      * @remarks
-     * - Ratios ≥ 4.5 are generally accessible for normal text.
-     * - For perceptual accuracy, consider using APCA instead.
+     * - Uses `config.defaults.contrast` (WCAG 2.1 by default) unless an algorithm is given.
+     * - WCAG 2.1 ratios ≥ 4.5 are generally accessible for normal text.
+     * - For perceptual accuracy, consider using `"apca"` (see {@link contrastAPCA}) instead.
      */
-    contrast(other: Color<ColorModel> | string) {
+    contrast(other: Color<ColorModel> | string, options: ContrastOptions = {}) {
+        const { algorithm = config.defaults.contrast } = options;
+        const fn = contrastMethods[algorithm] as ContrastFunction | undefined;
+        if (!fn) {
+            throw new Error(
+                `Invalid contrast algorithm: must be ${Object.keys(contrastMethods).join(", ")}, received '${algorithm}'.`
+            );
+        }
+
         const o = typeof other === "string" ? Color.from(other) : other;
-        const [, L1] = this.in("xyz-d65").toArray({ fit: "none", precision: null });
-        const [, L2] = o.in("xyz-d65").toArray({ fit: "none", precision: null });
-        return (Math.max(L1, L2) + 0.05) / (Math.min(L1, L2) + 0.05);
+        return fn(this as Color, o);
+    }
+
+    /**
+     * Calculates the APCA (WCAG 3 draft) lightness contrast of this color as text against a background.
+     *
+     * @param background - The background color (instance or string).
+     * @returns The signed lightness contrast (Lc), roughly from -108 to 106.
+     *
+     * @remarks
+     * - Positive values mean dark text on a light background, negative values mean light text on a dark background.
+     * - Uses the APCA-W3 0.0.98G-4g constants, including the soft clamp for near-black colors and the low-contrast clip.
+     * - Equivalent to `contrast(background, { algorithm: "apca" })`.
+     *
+     * @see {@link https://github.com/Myndex/apca-w3|APCA-W3 reference implementation}
+     */
+    contrastAPCA(background: Color<ColorModel> | string) {
+        return this.contrast(background, { algorithm: "apca" });
     }
 
     /**
@@ -807,6 +1422,52 @@ export class Color<M extends ColorModel = ColorModel> {
         return Math.sqrt(dE);
     }
 
+    /**
+     * Calculates the color difference (ΔEz) between two colors in the JzCzhz color space.
+     * Suited to HDR and wide gamut content, as Jzazbz models absolute luminance up to 10,000 cd/m².
+     *
+     * @param other - The other color to compare against (as a Color instance or string).
+     * @returns A non-negative number (smaller indicates more similar colors), roughly 0.002 for a just noticeable difference.
+     *
+     * @see {@link https://doi.org/10.1364/OE.25.015131|Perceptually uniform color space for image signals including high dynamic range and wide gamut}
+     */
+    deltaEJz(other: Color<ColorModel> | string) {
+        const coordsOptions = { fit: "none", precision: null } as const;
+        const [Jz1, Cz1, hz1] = this.in("jzczhz").toArray(coordsOptions);
+        const [Jz2, Cz2, hz2] = (typeof other === "string" ? Color.from(other) : other)
+            .in("jzczhz")
+            .toArray(coordsOptions);
+
+        const ΔJ = Jz1 - Jz2;
+        const ΔC = Cz1 - Cz2;
+        const ΔH = 2 * Math.sqrt(Cz1 * Cz2) * Math.sin(((hz1 - hz2) / 2) * (Math.PI / 180));
+
+        return Math.sqrt(ΔJ ** 2 + ΔC ** 2 + ΔH ** 2);
+    }
+
+    /**
+     * Calculates the color difference (ΔE ITP) between two colors in the ICtCp color space.
+     * Intended for HDR and wide color gamut imagery, as recommended by ITU-R BT.2124.
+     *
+     * @param other - The other color to compare against (as a Color instance or string).
+     * @returns A non-negative number (smaller indicates more similar colors), where 1 is roughly a just noticeable difference.
+     *
+     * @see {@link https://www.itu.int/rec/R-REC-BT.2124|ITU-R BT.2124, Objective metric for the assessment of the potential visibility of colour differences in television}
+     */
+    deltaEITP(other: Color<ColorModel> | string) {
+        const coordsOptions = { fit: "none", precision: null } as const;
+        const [I1, Ct1, Cp1] = this.in("ictcp").toArray(coordsOptions);
+        const [I2, Ct2, Cp2] = (typeof other === "string" ? Color.from(other) : other)
+            .in("ictcp")
+            .toArray(coordsOptions);
+
+        const ΔI = I1 - I2;
+        const ΔT = 0.5 * (Ct1 - Ct2);
+        const ΔP = Cp1 - Cp2;
+
+        return 720 * Math.sqrt(ΔI ** 2 + ΔT ** 2 + ΔP ** 2);
+    }
+
     /**
      * Checks numeric equality with another color within a tolerance.
      *
@@ -824,6 +1485,8 @@ export class Color<M extends ColorModel = ColorModel> {
      *   - {@link deltaE76} (basic, Euclidean distance in LAB)
      *   - {@link deltaE94} (weighted improvements over LAB)
      *   - {@link deltaE2000} (most accurate, accounts for perceptual interactions)
+     *   - {@link deltaEJz} (based on JzCzhz, for HDR and wide gamut colors)
+     *   - {@link deltaEITP} (based on ICtCp, for HDR and wide gamut colors)
      */
     equals(other: Color<ColorModel> | string, epsilon = EPSILON) {
         const o = typeof other === "string" ? Color.from(other) : other;
@@ -858,4 +1521,28 @@ export class Color<M extends ColorModel = ColorModel> {
             return v >= min - epsilon && v <= max + epsilon;
         });
     }
+
+    /**
+     * Reports whether this color lies within a given gamut, and the HDR headroom it needs there.
+     *
+     * @param gamut - Target color space.
+     * @param epsilon - Floating-point tolerance (defaults to the value of `EPSILON` in `"saturon/math"`).
+     * @returns Whether the color is inside the standard dynamic range of the gamut, and the headroom in stops above
+     * SDR white needed to display its brightest component without clipping.
+     * @throws If the gamut is unsupported.
+     *
+     * @example
+     * ```ts
+     * Color.from("color(srgb-linear 4 0.5 0)").gamutReport("srgb-linear"); // { inGamut: false, headroom: 2 }
+     * ```
+     */
+    gamutReport(gamut: ColorSpace | string, epsilon = EPSILON): GamutReport {
+        const inGamut = this.inGamut(gamut, epsilon);
+        const g = gamut.trim().toLowerCase() as ColorSpace;
+        const { toLinear = (c: number) => c } = colorModels[g];
+
+        const coords = this.in(g).toArray({ fit: "none", precision: null });
+        const peak = Math.max(...coords.slice(0, 3).map(toLinear));
+        return { inGamut, headroom: peak > 1 + epsilon ? Math.log2(peak) : 0 };
+    }
 }
@@ -1,4 +1,4 @@
-import { Config } from "./types.js";
+import { Config, SystemColor } from "./types.js";
 
 export const systemColors = {
     AccentColor: [
@@ -79,10 +79,381 @@ export const systemColors = {
     ],
 };
 
+/**
+ * Bundled system color palettes, selectable with `configure({ systemColorPreset })`.
+ *
+ * @remarks
+ * Each preset holds a light and a dark value per keyword, approximating the defaults of a platform:
+ * - `"default"`: A snapshot of the built-in palette, `systemColors`, unaffected by `configure()`.
+ * - `"chromium-windows"`: Chromium on Windows.
+ * - `"webkit-macos"`: Safari on macOS.
+ * - `"firefox-linux"`: Firefox on Linux with the GTK Adwaita theme.
+ * - `"high-contrast"`: Windows contrast themes, High Contrast White for light and High Contrast Black for dark.
+ *
+ * @see {@link https://www.w3.org/TR/css-color-4/#css-system-colors|CSS Color 4, System Colors}
+ */
+export const systemColorPresets = {
+    default: Object.fromEntries(
+        Object.entries(systemColors).map(([key, pair]) => [key, pair.map((rgb) => rgb.slice())])
+    ) as typeof systemColors,
+    "chromium-windows": {
+        AccentColor: [
+            [0, 117, 255],
+            [153, 200, 255],
+        ],
+        AccentColorText: [
+            [255, 255, 255],
+            [0, 0, 0],
+        ],
+        ActiveText: [
+            [255, 0, 0],
+            [255, 158, 158],
+        ],
+        ButtonBorder: [
+            [118, 118, 118],
+            [133, 133, 133],
+        ],
+        ButtonFace: [
+            [239, 239, 239],
+            [107, 107, 107],
+        ],
+        ButtonText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        Canvas: [
+            [255, 255, 255],
+            [18, 18, 18],
+        ],
+        CanvasText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        Field: [
+            [255, 255, 255],
+            [59, 59, 59],
+        ],
+        FieldText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        GrayText: [
+            [109, 109, 109],
+            [146, 146, 146],
+        ],
+        Highlight: [
+            [0, 120, 215],
+            [0, 120, 215],
+        ],
+        HighlightText: [
+            [255, 255, 255],
+            [255, 255, 255],
+        ],
+        LinkText: [
+            [0, 0, 238],
+            [158, 158, 255],
+        ],
+        Mark: [
+            [255, 255, 0],
+            [255, 255, 0],
+        ],
+        MarkText: [
+            [0, 0, 0],
+            [0, 0, 0],
+        ],
+        SelectedItem: [
+            [0, 120, 215],
+            [0, 120, 215],
+        ],
+        SelectedItemText: [
+            [255, 255, 255],
+            [255, 255, 255],
+        ],
+        VisitedText: [
+            [85, 26, 139],
+            [208, 173, 240],
+        ],
+    },
+    "webkit-macos": {
+        AccentColor: [
+            [0, 122, 255],
+            [10, 132, 255],
+        ],
+        AccentColorText: [
+            [255, 255, 255],
+            [255, 255, 255],
+        ],
+        ActiveText: [
+            [255, 0, 0],
+            [255, 100, 100],
+        ],
+        ButtonBorder: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        ButtonFace: [
+            [192, 192, 192],
+            [107, 107, 107],
+        ],
+        ButtonText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        Canvas: [
+            [255, 255, 255],
+            [30, 30, 30],
+        ],
+        CanvasText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        Field: [
+            [255, 255, 255],
+            [30, 30, 30],
+        ],
+        FieldText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        GrayText: [
+            [128, 128, 128],
+            [152, 152, 157],
+        ],
+        Highlight: [
+            [179, 215, 255],
+            [63, 99, 139],
+        ],
+        HighlightText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        LinkText: [
+            [0, 0, 238],
+            [158, 158, 255],
+        ],
+        Mark: [
+            [255, 255, 0],
+            [204, 204, 0],
+        ],
+        MarkText: [
+            [0, 0, 0],
+            [0, 0, 0],
+        ],
+        SelectedItem: [
+            [0, 99, 225],
+            [0, 88, 208],
+        ],
+        SelectedItemText: [
+            [255, 255, 255],
+            [255, 255, 255],
+        ],
+        VisitedText: [
+            [85, 26, 139],
+            [208, 173, 240],
+        ],
+    },
+    "firefox-linux": {
+        AccentColor: [
+            [53, 132, 228],
+            [53, 132, 228],
+        ],
+        AccentColorText: [
+            [255, 255, 255],
+            [255, 255, 255],
+        ],
+        ActiveText: [
+            [238, 0, 0],
+            [255, 102, 102],
+        ],
+        ButtonBorder: [
+            [143, 143, 157],
+            [143, 143, 157],
+        ],
+        ButtonFace: [
+            [233, 233, 237],
+            [43, 42, 51],
+        ],
+        ButtonText: [
+            [0, 0, 0],
+            [251, 251, 254],
+        ],
+        Canvas: [
+            [255, 255, 255],
+            [28, 27, 34],
+        ],
+        CanvasText: [
+            [0, 0, 0],
+            [251, 251, 254],
+        ],
+        Field: [
+            [255, 255, 255],
+            [43, 42, 51],
+        ],
+        FieldText: [
+            [0, 0, 0],
+            [251, 251, 254],
+        ],
+        GrayText: [
+            [109, 109, 109],
+            [139, 139, 139],
+        ],
+        Highlight: [
+            [53, 132, 228],
+            [53, 132, 228],
+        ],
+        HighlightText: [
+            [255, 255, 255],
+            [255, 255, 255],
+        ],
+        LinkText: [
+            [0, 0, 238],
+            [140, 140, 255],
+        ],
+        Mark: [
+            [255, 255, 0],
+            [255, 255, 0],
+        ],
+        MarkText: [
+            [0, 0, 0],
+            [0, 0, 0],
+        ],
+        SelectedItem: [
+            [53, 132, 228],
+            [53, 132, 228],
+        ],
+        SelectedItemText: [
+            [255, 255, 255],
+            [255, 255, 255],
+        ],
+        VisitedText: [
+            [85, 26, 139],
+            [255, 173, 255],
+        ],
+    },
+    "high-contrast": {
+        AccentColor: [
+            [55, 0, 110],
+            [26, 235, 255],
+        ],
+        AccentColorText: [
+            [255, 255, 255],
+            [0, 0, 0],
+        ],
+        ActiveText: [
+            [0, 0, 159],
+            [255, 255, 0],
+        ],
+        ButtonBorder: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        ButtonFace: [
+            [255, 255, 255],
+            [0, 0, 0],
+        ],
+        ButtonText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        Canvas: [
+            [255, 255, 255],
+            [0, 0, 0],
+        ],
+        CanvasText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        Field: [
+            [255, 255, 255],
+            [0, 0, 0],
+        ],
+        FieldText: [
+            [0, 0, 0],
+            [255, 255, 255],
+        ],
+        GrayText: [
+            [96, 0, 0],
+            [63, 242, 63],
+        ],
+        Highlight: [
+            [55, 0, 110],
+            [26, 235, 255],
+        ],
+        HighlightText: [
+            [255, 255, 255],
+            [0, 0, 0],
+        ],
+        LinkText: [
+            [0, 0, 159],
+            [255, 255, 0],
+        ],
+        Mark: [
+            [255, 255, 0],
+            [255, 255, 0],
+        ],
+        MarkText: [
+            [0, 0, 0],
+            [0, 0, 0],
+        ],
+        SelectedItem: [
+            [55, 0, 110],
+            [26, 235, 255],
+        ],
+        SelectedItemText: [
+            [255, 255, 255],
+            [0, 0, 0],
+        ],
+        VisitedText: [
+            [0, 0, 159],
+            [255, 255, 0],
+        ],
+    },
+} satisfies Record<string, Record<SystemColor, number[][]>>;
+
+/**
+ * System colors that authored colors are replaced with in forced colors mode, by the role they play in the page.
+ *
+ * @remarks
+ * Mirrors the forced colors user agent style sheets of major browsers: text and borders take `CanvasText`,
+ * backgrounds take `Canvas`, and links, buttons, selections and disabled controls take their dedicated pairs.
+ *
+ * @see {@link https://www.w3.org/TR/css-color-adjust-1/#forced-colors-properties|CSS Color Adjustment 1, Properties Affected by Forced Colors Mode}
+ */
+export const forcedColorRoles = {
+    text: "CanvasText",
+    background: "Canvas",
+    border: "CanvasText",
+    link: "LinkText",
+    "visited-link": "VisitedText",
+    "active-link": "ActiveText",
+    "button-text": "ButtonText",
+    "button-face": "ButtonFace",
+    "button-border": "ButtonBorder",
+    "field-text": "FieldText",
+    field: "Field",
+    "selected-text": "HighlightText",
+    selected: "Highlight",
+    mark: "Mark",
+    "mark-text": "MarkText",
+    disabled: "GrayText",
+} satisfies Record<string, SystemColor>;
+
 export const config: Config = {
     theme: "light",
     systemColors,
+    systemColorPreset: "default",
+    forcedColors: false,
+    currentColor: "black",
+    viewingConditions: {
+        adaptingLuminance: (64 / Math.PI) * 0.2,
+        backgroundLuminance: 20,
+        surround: "average",
+        discounting: false,
+    },
     defaults: {
         fit: "clip",
+        contrast: "wcag21",
+        headroom: Math.log2(1000 / 203),
+        dynamicRangeLimit: "standard",
     },
 };
@@ -1,19 +1,37 @@
 import { Color } from "./Color.js";
 import { config } from "./config.js";
 import {
+    CAM16_to_CAM16JMH,
+    CAM16_to_CAM16QSH,
+    CAM16_to_CAM16UCS,
+    CAM16_to_XYZD65,
+    CAM16JMH_to_CAM16,
+    CAM16QSH_to_CAM16,
+    CAM16UCS_to_CAM16,
+    HCT_to_XYZD65,
     HSL_to_RGB,
+    ICTCP_to_REC2100LINEAR,
+    JZAZBZ_to_JZCZHZ,
+    JZAZBZ_to_XYZD65,
+    JZCZHZ_to_JZAZBZ,
     HWB_to_RGB,
     LAB_to_LCH,
     LAB_to_XYZD50,
+    LINEAR_to_PQ,
     LCH_to_LAB,
     MATRICES,
     OKLAB_to_OKLCH,
     OKLAB_to_XYZD65,
     OKLCH_to_OKLAB,
+    PQ_to_LINEAR,
+    REC2100LINEAR_to_ICTCP,
     RGB_to_HSL,
     RGB_to_HWB,
     RGB_to_XYZD65,
     XYZD50_to_LAB,
+    XYZD65_to_CAM16,
+    XYZD65_to_HCT,
+    XYZD65_to_JZAZBZ,
     XYZD65_to_OKLAB,
     XYZD65_to_RGB,
 } from "./math.js";
@@ -24,6 +42,7 @@ import type {
     ColorModelConverter,
     FormattingOptions,
     HueInterpolationMethod,
+    ParseOptions,
     NamedColor,
 } from "./types.js";
 import {
@@ -31,6 +50,8 @@ import {
     spaceConverterToModelConverter,
     fit,
     extractBalancedExpression,
+    evaluateCalc,
+    clean,
 } from "./utils.js";
 
 export const alphaDef = { index: 3, value: [0, 1], precision: 3 };
@@ -195,6 +216,7 @@ export const namedColors = {
  * A collection of color spaces for `<color()>` function and their conversion logic.
  *
  * @see {@link https://www.w3.org/TR/css-color-4/|CSS Color Module Level 4}
+ * @see {@link https://drafts.csswg.org/css-color-hdr-1/|CSS Color HDR Module Level 1}
  */
 export const colorSpaces = {
     srgb: spaceConverterToModelConverter("srgb", {
@@ -261,6 +283,47 @@ export const colorSpaces = {
         toBridgeMatrix: MATRICES.REC2020_to_XYZD65,
         fromBridgeMatrix: MATRICES.XYZD65_to_REC2020,
     }),
+    "rec2100-pq": spaceConverterToModelConverter("rec2100-pq", {
+        components: ["r", "g", "b"],
+        bridge: "xyz-d65",
+        toLinear: (c: number) => PQ_to_LINEAR(c),
+        fromLinear: (c: number) => LINEAR_to_PQ(c),
+        toBridgeMatrix: MATRICES.REC2020_to_XYZD65,
+        fromBridgeMatrix: MATRICES.XYZD65_to_REC2020,
+    }),
+    "rec2100-hlg": spaceConverterToModelConverter("rec2100-hlg", {
+        components: ["r", "g", "b"],
+        bridge: "xyz-d65",
+        toLinear: (c: number) => {
+            const a = 0.17883277;
+            const b = 1 - 4 * a;
+            const c1 = 0.5 - a * Math.log(4 * a);
+            const scale = 3.7743;
+            const sign = c < 0 ? -1 : 1;
+            const abs = Math.abs(c);
+            if (abs <= 0.5) return sign * ((abs ** 2 / 3) * scale);
+            return sign * (((Math.exp((abs - c1) / a) + b) / 12) * scale);
+        },
+        fromLinear: (c: number) => {
+            const a = 0.17883277;
+            const b = 1 - 4 * a;
+            const c1 = 0.5 - a * Math.log(4 * a);
+            const scale = 3.7743;
+            const sign = c < 0 ? -1 : 1;
+            const abs = Math.abs(c) / scale;
+            if (abs <= 1 / 12) return sign * Math.sqrt(3 * abs);
+            return sign * (a * Math.log(12 * abs - b) + c1);
+        },
+        toBridgeMatrix: MATRICES.REC2020_to_XYZD65,
+        fromBridgeMatrix: MATRICES.XYZD65_to_REC2020,
+    }),
+    "rec2100-linear": spaceConverterToModelConverter("rec2100-linear", {
+        targetGamut: null,
+        components: ["r", "g", "b"],
+        bridge: "xyz-d65",
+        toBridgeMatrix: MATRICES.REC2020_to_XYZD65,
+        fromBridgeMatrix: MATRICES.XYZD65_to_REC2020,
+    }),
     "a98-rgb": spaceConverterToModelConverter("a98-rgb", {
         components: ["r", "g", "b"],
         bridge: "xyz-d65",
@@ -420,6 +483,94 @@ export const colorModels = {
         toBridge: OKLCH_to_OKLAB,
         fromBridge: OKLAB_to_OKLCH,
     },
+    cam16: {
+        targetGamut: null,
+        components: {
+            j: { index: 0, value: [0, 100], precision: 5 },
+            c: { index: 1, value: [0, 115], precision: 5 },
+            h: { index: 2, value: "hue", precision: 5 },
+        },
+        bridge: "xyz-d65",
+        toBridge: (coords: number[]) => CAM16_to_XYZD65(coords),
+        fromBridge: (coords: number[]) => XYZD65_to_CAM16(coords),
+    },
+    "cam16-ucs": {
+        targetGamut: null,
+        components: {
+            j: { index: 0, value: [0, 100], precision: 5 },
+            a: { index: 1, value: [-50, 50], precision: 5 },
+            b: { index: 2, value: [-50, 50], precision: 5 },
+        },
+        bridge: "cam16",
+        toBridge: (coords: number[]) => CAM16UCS_to_CAM16(coords),
+        fromBridge: (coords: number[]) => CAM16_to_CAM16UCS(coords),
+    },
+    "cam16-jmh": {
+        targetGamut: null,
+        components: {
+            j: { index: 0, value: [0, 100], precision: 5 },
+            m: { index: 1, value: [0, 100], precision: 5 },
+            h: { index: 2, value: "hue", precision: 5 },
+        },
+        bridge: "cam16",
+        toBridge: (coords: number[]) => CAM16JMH_to_CAM16(coords),
+        fromBridge: (coords: number[]) => CAM16_to_CAM16JMH(coords),
+    },
+    "cam16-qsh": {
+        targetGamut: null,
+        components: {
+            q: { index: 0, value: [0, 130], precision: 5 },
+            s: { index: 1, value: [0, 110], precision: 5 },
+            h: { index: 2, value: "hue", precision: 5 },
+        },
+        bridge: "cam16",
+        toBridge: (coords: number[]) => CAM16QSH_to_CAM16(coords),
+        fromBridge: (coords: number[]) => CAM16_to_CAM16QSH(coords),
+    },
+    hct: {
+        targetGamut: null,
+        components: {
+            h: { index: 0, value: "hue", precision: 5 },
+            c: { index: 1, value: [0, 145], precision: 5 },
+            t: { index: 2, value: [0, 100], precision: 5 },
+        },
+        bridge: "xyz-d65",
+        toBridge: HCT_to_XYZD65,
+        fromBridge: XYZD65_to_HCT,
+    },
+    ictcp: {
+        targetGamut: null,
+        components: {
+            i: { index: 0, value: [0, 1], precision: 5 },
+            ct: { index: 1, value: [-0.5, 0.5], precision: 5 },
+            cp: { index: 2, value: [-0.5, 0.5], precision: 5 },
+        },
+        bridge: "rec2100-linear",
+        toBridge: ICTCP_to_REC2100LINEAR,
+        fromBridge: REC2100LINEAR_to_ICTCP,
+    },
+    jzazbz: {
+        targetGamut: null,
+        components: {
+            jz: { index: 0, value: [0, 1], precision: 5 },
+            az: { index: 1, value: [-0.21, 0.21], precision: 5 },
+            bz: { index: 2, value: [-0.21, 0.21], precision: 5 },
+        },
+        bridge: "xyz-d65",
+        toBridge: JZAZBZ_to_XYZD65,
+        fromBridge: XYZD65_to_JZAZBZ,
+    },
+    jzczhz: {
+        targetGamut: null,
+        components: {
+            jz: { index: 0, value: [0, 1], precision: 5 },
+            cz: { index: 1, value: [0, 0.26], precision: 5 },
+            hz: { index: 2, value: "hue", precision: 5 },
+        },
+        bridge: "jzazbz",
+        toBridge: JZCZHZ_to_JZAZBZ,
+        fromBridge: JZAZBZ_to_JZCZHZ,
+    },
     ...colorSpaces,
 } as const;
 
@@ -491,18 +642,41 @@ export const colorBases = {
         isValid: (str: string) => str.slice(0, 10) === "color-mix(" && str[str.length - 1] === ")",
         bridge: "rgb",
         toBridge: (coords: number[]) => coords,
-        parse: (str: string) => {
+        parse: (str: string, options: ParseOptions = {}) => {
+            const evaluateWeight = (token: string) => {
+                let weight: number;
+
+                if (/^-?(?:\d+|\d*\.\d+)%$/.test(token)) {
+                    weight = parseFloat(token) / 100;
+                } else {
+                    const inner = token.slice(5, -1);
+                    if (inner.includes("var(")) return undefined;
+                    weight = evaluateCalc(inner.replace(/(\d*\.?\d+)%/g, (_, num) => String(parseFloat(num) / 100)));
+                }
+
+                if (isNaN(weight)) throw new Error(`Invalid percentage: '${token}'.`);
+                if (weight < 0) throw new Error("Percentages less than 0 are not valid.");
+                if (weight > 1) throw new Error("Percentages greater than 100 are not valid.");
+                return weight;
+            };
+
             const extractColorAndWeight = (colorStr: string) => {
                 const s = colorStr.trim();
 
                 let weight: number | undefined;
+                let hasWeight = false;
                 let remaining = s;
 
-                const leadingWeightMatch = remaining.match(/^(\d+)%\s+/);
+                const leadingWeightMatch = remaining.match(/^-?(?:\d+|\d*\.\d+)%\s+/);
                 if (leadingWeightMatch) {
-                    const raw = parseInt(leadingWeightMatch[1], 10);
-                    weight = Math.min(1, Math.max(0, raw / 100));
+                    weight = evaluateWeight(leadingWeightMatch[0].trim());
+                    hasWeight = true;
                     remaining = remaining.slice(leadingWeightMatch[0].length).trim();
+                } else if (remaining.slice(0, 5) === "calc(") {
+                    const { expression: calcExpr, end } = extractBalancedExpression(remaining, 0);
+                    weight = evaluateWeight(calcExpr);
+                    hasWeight = true;
+                    remaining = remaining.slice(end).trim();
                 }
 
                 let colorExpression = "";
@@ -524,23 +698,14 @@ export const colorBases = {
                     rest = m ? m[2].trim() : "";
                 }
 
-                if (weight === undefined) {
-                    const trailingWeightMatch = rest.match(/^(-?(?:\d+\.?\d*|\.\d+))%/);
+                if (!hasWeight) {
+                    const trailingWeightMatch = rest.match(/^-?(?:\d+\.?\d*|\.\d+)%/);
                     if (trailingWeightMatch) {
-                        const raw = parseInt(trailingWeightMatch[1], 10);
-                        weight = raw / 100;
+                        weight = evaluateWeight(trailingWeightMatch[0]);
                         rest = rest.slice(trailingWeightMatch[0].length).trim();
-
-                        if (weight < 0) {
-                            throw new Error("Percentages less than 0 are not valid.");
-                        } else if (weight > 1) {
-                            throw new Error("Percentages greater than 100 are not valid.");
-                        }
                     } else if (rest.slice(0, 5) === "calc(") {
                         const { expression: calcExpr, end } = extractBalancedExpression(rest, 0);
-                        if (!calcExpr) {
-                            throw new Error("Malformed calc() weight expression.");
-                        }
+                        weight = evaluateWeight(calcExpr);
                         rest = rest.slice(end).trim();
                     }
                 }
@@ -549,40 +714,10 @@ export const colorBases = {
                     throw new Error(`Unexpected extra tokens after color: '${rest}'.`);
                 }
 
-                const color = Color.from(colorExpression);
+                const color = Color.from(colorExpression, options);
                 return { color, weight };
             };
 
-            const getWeight2Prime = (weight1?: number, weight2?: number) => {
-                if (weight1 === undefined && typeof weight2 === "number") {
-                    weight1 = 1 - weight2;
-                } else if (typeof weight1 === "number" && weight2 === undefined) {
-                    weight2 = 1 - weight1;
-                } else if (weight1 === undefined && weight2 === undefined) {
-                    weight1 = weight2 = 0.5;
-                } else {
-                    weight1 = weight1 as number;
-                    weight2 = weight2 as number;
-
-                    if (weight1 + weight2 <= 0) {
-                        throw new Error("Sum of percengates cannot be 0%.");
-                    }
-                }
-
-                const totalWeight = weight1 + weight2;
-                let alphaMultiplier;
-                if (totalWeight > 1) {
-                    weight1 /= totalWeight;
-                    weight2 /= totalWeight;
-                } else {
-                    weight1 /= totalWeight;
-                    weight2 /= totalWeight;
-                    alphaMultiplier = totalWeight;
-                }
-
-                return { amount: weight2, alphaMultiplier };
-            };
-
             const fnName = "color-mix";
 
             const { expression } = extractBalancedExpression(str, fnName.length);
@@ -619,8 +754,8 @@ export const colorBases = {
 
             parts.push(current.trim());
 
-            if (parts.length !== 3) {
-                throw new Error("color-mix must have three comma-separated parts.");
+            if (parts.length < 3) {
+                throw new Error("color-mix must have an interpolation method and at least two colors.");
             }
 
             const inPart = parts[0];
@@ -646,16 +781,15 @@ export const colorBases = {
                 hue = "shorter";
             }
 
-            const { color: color1, weight: weight1 } = extractColorAndWeight(parts[1]);
-            const { color: color2, weight: weight2 } = extractColorAndWeight(parts[2]);
+            const entries = parts.slice(1).map(extractColorAndWeight);
+            const colors = entries.map(({ color }) => color);
+            const weights = entries.map(({ weight }) => weight);
 
-            const { amount, alphaMultiplier = 1 } = getWeight2Prime(weight1, weight2);
-
-            return color1
-                .with({ alpha: (a) => (isNaN(a) ? a : a * alphaMultiplier) }, false)
-                .in(model)
-                .mix(color2.with({ alpha: (a) => (isNaN(a) ? a : a * alphaMultiplier) }, false), { amount, hue })
-                .in("rgb").coords;
+            return Color.mixAll(colors, weights, { in: model as ColorModel, hue }).in("rgb").coords;
+        },
+        fromBridge: (coords: number[]) => coords,
+        format: () => {
+            throw new Error("color-mix() can only be output for colors parsed from it with `preserve: true`.");
         },
     },
     transparent: {
@@ -663,6 +797,11 @@ export const colorBases = {
         bridge: "rgb",
         toBridge: (coords: number[]) => coords,
         parse: (str: string) => [NaN, NaN, NaN, 0], // eslint-disable-line no-unused-vars
+        fromBridge: (coords: number[]) => coords,
+        format: ([, , , alpha = 1]: number[]) => {
+            if (alpha !== 0) throw new Error("Only fully transparent colors can be output as 'transparent'.");
+            return "transparent";
+        },
     },
 } satisfies Record<string, ColorConverter>;
 
@@ -677,16 +816,29 @@ export const colorTypes = {
         isValid: (str: string) => str === "currentcolor",
         bridge: "rgb",
         toBridge: (coords: number[]) => coords,
-        parse: (str: string) => [0, 0, 0, 1], // eslint-disable-line no-unused-vars
+        parse: (str: string, options: ParseOptions = {}) => {
+            const { currentColor = config.currentColor } = options;
+            if (clean(currentColor).includes("currentcolor")) {
+                throw new Error("currentColor cannot resolve to a color that references currentColor.");
+            }
+            return Color.from(currentColor, options).in("rgb").coords;
+        },
+        fromBridge: (coords: number[]) => coords,
+        format: () => {
+            throw new Error("currentColor can only be output for colors parsed from it with `preserve: true`.");
+        },
     },
     "system-color": {
-        isValid: (str: string) => Object.keys(config.systemColors).some((key) => key.toLowerCase() === str),
+        isValid: (str: string, options: ParseOptions = {}) =>
+            Object.keys({ ...config.systemColors, ...options.systemColors }).some((key) => key.toLowerCase() === str),
         bridge: "rgb",
         toBridge: (coords: number[]) => coords,
-        parse: (str: string) => {
-            const { systemColors } = config;
+        parse: (str: string, options: ParseOptions = {}) => {
+            const { theme = config.theme } = options;
+            const systemColors = { ...config.systemColors, ...options.systemColors };
             const key = Object.keys(systemColors).find((k) => k.toLowerCase() === str);
-            const rgbArr = systemColors[key as keyof typeof systemColors][config.theme === "light" ? 0 : 1];
+            if (!key) throw new Error(`Unknown system color: '${str}'.`);
+            const rgbArr = systemColors[key][theme === "light" ? 0 : 1];
             return [...rgbArr, 1];
         },
     },
@@ -694,17 +846,109 @@ export const colorTypes = {
         isValid: (str: string) => str.slice(0, 15) === "contrast-color(" && str[str.length - 1] === ")",
         bridge: "rgb",
         toBridge: (coords: number[]) => coords,
-        parse: (str: string) => {
-            const inner = str.slice(15, -1);
-            const [, luminance] = Color.from(inner).in("xyz-d65").coords;
-            return luminance > 0.5 ? [0, 0, 0, 1] : [255, 255, 255, 1];
+        parse: (str: string, options: ParseOptions = {}) => {
+            const targets: Record<string, number> = { aa: 4.5, "aa-large": 3, aaa: 7, "aaa-large": 4.5 };
+
+            const { expression } = extractBalancedExpression(str, 14);
+            if (!expression) throw new Error("Malformed contrast-color expression.");
+
+            const inner = expression.slice(1, -1).trim();
+
+            const tokens: string[] = [];
+            let current = "";
+            let i = 0;
+
+            while (i < inner.length) {
+                const char = inner[i];
+
+                if (char === " " || char === ",") {
+                    if (current) tokens.push(current);
+                    if (char === ",") tokens.push(char);
+                    current = "";
+                    i++;
+                    continue;
+                }
+
+                if (char === "(" || /[a-zA-Z]/.test(char)) {
+                    const { expression: expr, end } = extractBalancedExpression(inner, i);
+                    if (expr) {
+                        current += expr;
+                        i = end;
+                        continue;
+                    }
+                }
+
+                current += char;
+                i++;
+            }
+            if (current) tokens.push(current);
+
+            const vsIndex = tokens.indexOf("vs");
+            const toIndex = tokens.indexOf("to");
+            const bgEnd = [vsIndex, toIndex].filter((idx) => idx !== -1).sort((a, b) => a - b)[0] ?? tokens.length;
+
+            if (bgEnd !== 1 || tokens[0] === ",") {
+                throw new Error("contrast-color() must start with a single background color.");
+            }
+            if (vsIndex !== -1 && toIndex !== -1 && toIndex < vsIndex) {
+                throw new Error("The 'vs' candidate list must come before the 'to' target in contrast-color().");
+            }
+
+            const background = Color.from(tokens[0], options);
+
+            let candidates = ["white", "black"];
+            if (vsIndex !== -1) {
+                const list = tokens.slice(vsIndex + 1, toIndex === -1 ? tokens.length : toIndex);
+                candidates = list.filter((t) => t !== ",");
+                const isWellFormed =
+                    candidates.length >= 2 &&
+                    list.length === candidates.length * 2 - 1 &&
+                    list.every((t, idx) => (idx % 2 === 1) === (t === ","));
+                if (!isWellFormed) {
+                    throw new Error("contrast-color() requires at least two comma-separated candidates after 'vs'.");
+                }
+            }
+
+            let target: number | undefined;
+            if (toIndex !== -1) {
+                const targetTokens = tokens.slice(toIndex + 1);
+                if (targetTokens.length !== 1) {
+                    throw new Error("contrast-color() requires a single target after 'to'.");
+                }
+                const [value] = targetTokens;
+                target = value in targets ? targets[value] : Number(value);
+                if (!Number.isFinite(target)) {
+                    throw new Error(`Invalid contrast-color() target: '${value}'.`);
+                }
+            }
+
+            let best: Color | undefined;
+            let bestContrast = -Infinity;
+
+            for (const candidate of candidates) {
+                const color = Color.from(candidate, options);
+                const contrast = Math.abs(color.contrast(background, { algorithm: "wcag21" }));
+                if (target !== undefined && contrast >= target) {
+                    return color.in("rgb").coords;
+                }
+                if (contrast > bestContrast) {
+                    best = color;
+                    bestContrast = contrast;
+                }
+            }
+
+            return (best as Color).in("rgb").coords;
+        },
+        fromBridge: (coords: number[]) => coords,
+        format: () => {
+            throw new Error("contrast-color() can only be output for colors parsed from it with `preserve: true`.");
         },
     },
     "device-cmyk": {
         isValid: (str: string) => str.slice(0, 12) === "device-cmyk(" && str[str.length - 1] === ")",
         bridge: "rgb",
         toBridge: (coords: number[]) => coords,
-        parse: (str: string) => {
+        parse: (str: string, options: ParseOptions = {}) => {
             const fnName = "device-cmyk";
             const fnIndex = str.indexOf(fnName);
             if (fnIndex === -1) throw new Error("Invalid device-cmyk syntax");
@@ -800,7 +1044,7 @@ export const colorTypes = {
             if (idx < tokens.length && tokens[idx] === ",") {
                 idx++;
                 const fallbackStr = tokens.slice(idx).join(" ");
-                return Color.from(fallbackStr).in("rgb").coords;
+                return Color.from(fallbackStr, options).in("rgb").coords;
             }
 
             const red = 1 - Math.min(1, c * (1 - k) + k);
@@ -840,7 +1084,7 @@ export const colorTypes = {
         isValid: (str: string) => str.slice(0, 11) === "light-dark(" && str[str.length - 1] === ")",
         bridge: "rgb",
         toBridge: (coords: number[]) => coords,
-        parse: (str: string) => {
+        parse: (str: string, options: ParseOptions = {}) => {
             const fnName = "light-dark";
             const fnIndex = str.indexOf(fnName);
             if (fnIndex === -1) throw new Error("Not a <light-dark()> expression");
@@ -884,8 +1128,12 @@ export const colorTypes = {
 
             const [color1, color2] = parts;
 
-            const { theme } = config;
-            return Color.from(theme === "light" ? color1 : color2).coords;
+            const { theme = config.theme } = options;
+            return Color.from(theme === "light" ? color1 : color2, options).in("rgb").coords;
+        },
+        fromBridge: (coords: number[]) => coords,
+        format: () => {
+            throw new Error("light-dark() can only be output for colors parsed from it with `preserve: true`.");
         },
     },
 } satisfies Record<string, ColorConverter>;
@@ -1,7 +1,17 @@
 import { Color } from "./Color.js";
+import { config } from "./config.js";
 import { colorModels } from "./converters.js";
-import { ColorModelConverter, ColorSpace, FitFunction } from "./types.js";
-import { multiplyMatrices, fit } from "./utils.js";
+import {
+    CAM16Environment,
+    ColorFunction,
+    ColorModelConverter,
+    ColorSpace,
+    ContrastFunction,
+    FitFunction,
+    InterpolationFunction,
+    ViewingConditions,
+} from "./types.js";
+import { cache, multiplyMatrices, fit } from "./utils.js";
 
 export const EPSILON = 1e-5;
 
@@ -91,8 +101,293 @@ export const MATRICES = {
         [1.0, -0.1055613458156586, -0.0638541728258133],
         [1.0, -0.0894841775298119, -1.2914855480194092],
     ],
+    XYZ_to_CAT16: [
+        [0.401288, 0.650173, -0.051461],
+        [-0.250268, 1.204414, 0.045854],
+        [-0.002079, 0.048952, 0.953127],
+    ],
+    CAT16_to_XYZ: [
+        [1.8620678550872327, -1.0112546305316843, 0.14918677544445172],
+        [0.38752654323613717, 0.6214474419314754, -0.008973985167612518],
+        [-0.015841498849333856, -0.03412293802851556, 1.0499644368778493],
+    ],
+    CAM16_to_RGBA: [
+        [460 / 1403, 451 / 1403, 288 / 1403],
+        [460 / 1403, -891 / 1403, -261 / 1403],
+        [460 / 1403, -220 / 1403, -6300 / 1403],
+    ],
+    XYZ_to_JZLMS: [
+        [0.41478972, 0.579999, 0.014648],
+        [-0.20151, 1.120649, 0.0531008],
+        [-0.0166008, 0.2648, 0.6684799],
+    ],
+    JZLMS_to_XYZ: [
+        [1.9242264357876067, -1.0047923125953657, 0.037651404030618],
+        [0.35031676209499907, 0.7264811939316552, -0.06538442294808501],
+        [-0.09098281098284752, -0.3127282905230739, 1.5227665613052603],
+    ],
+    JZLMS_to_IZAZBZ: [
+        [0.5, 0.5, 0],
+        [3.524, -4.066708, 0.542708],
+        [0.199076, 1.096799, -1.295875],
+    ],
+    IZAZBZ_to_JZLMS: [
+        [1, 0.1386050432715393, 0.05804731615611886],
+        [0.9999999999999999, -0.1386050432715393, -0.05804731615611886],
+        [0.9999999999999998, -0.09601924202631895, -0.8118918960560388],
+    ],
+    REC2020_to_ICTCP_LMS: [
+        [1688 / 4096, 2146 / 4096, 262 / 4096],
+        [683 / 4096, 2951 / 4096, 462 / 4096],
+        [99 / 4096, 309 / 4096, 3688 / 4096],
+    ],
+    ICTCP_LMS_to_REC2020: [
+        [3.4366066943330784, -2.50645211865627, 0.06984542432319148],
+        [-0.7913295555989287, 1.9836004517922907, -0.192270896193362],
+        [-0.025949899690592672, -0.09891371471172644, 1.1248636144023192],
+    ],
+    ICTCP_LMS_to_ICTCP: [
+        [2048 / 4096, 2048 / 4096, 0],
+        [6610 / 4096, -13613 / 4096, 7003 / 4096],
+        [17933 / 4096, -17390 / 4096, -543 / 4096],
+    ],
+    ICTCP_to_ICTCP_LMS: [
+        [1, 0.008609037037932756, 0.11102962500302596],
+        [1, -0.008609037037932756, -0.11102962500302596],
+        [1, 0.5600313357106791, -0.32062717498731885],
+    ],
 };
 
+/** The CIE standard illuminant D65 white point in XYZ, with Y normalized to 1. */
+const D65_WHITE = [0.3127 / 0.329, 1, (1 - 0.3127 - 0.329) / 0.329];
+
+/**
+ * Color vision deficiency simulation matrices for anomalous trichromacy, applied to linear sRGB.
+ *
+ * @remarks
+ * Each type holds the Machado, Oliveira and Fernandes (2009) matrices for severities 0.0 to 1.0 in steps of 0.1.
+ *
+ * @see {@link https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html|A Physiologically-based Model for Simulation of Color Vision Deficiency}
+ */
+export const CVD_SEVERITY_MATRICES = {
+    protanomaly: [
+        [
+            [1, 0, 0],
+            [0, 1, 0],
+            [0, 0, 1],
+        ],
+        [
+            [0.856167, 0.182038, -0.038205],
+            [0.029342, 0.955115, 0.015544],
+            [-0.00288, -0.001563, 1.004443],
+        ],
+        [
+            [0.734766, 0.334872, -0.069637],
+            [0.05184, 0.919198, 0.028963],
+            [-0.004928, -0.004209, 1.009137],
+        ],
+        [
+            [0.630323, 0.465641, -0.095964],
+            [0.069181, 0.890046, 0.040773],
+            [-0.006308, -0.007724, 1.014032],
+        ],
+        [
+            [0.539009, 0.579343, -0.118352],
+            [0.082546, 0.866121, 0.051332],
+            [-0.007136, -0.011959, 1.019095],
+        ],
+        [
+            [0.458064, 0.679578, -0.137642],
+            [0.092785, 0.846313, 0.060902],
+            [-0.007494, -0.016807, 1.024301],
+        ],
+        [
+            [0.38545, 0.769005, -0.154455],
+            [0.100526, 0.829802, 0.069673],
+            [-0.007442, -0.02219, 1.029632],
+        ],
+        [
+            [0.319627, 0.849633, -0.169261],
+            [0.106241, 0.815969, 0.07779],
+            [-0.007025, -0.028051, 1.035076],
+        ],
+        [
+            [0.259411, 0.923008, -0.18242],
+            [0.110296, 0.80434, 0.085364],
+            [-0.006276, -0.034346, 1.040622],
+        ],
+        [
+            [0.203876, 0.990338, -0.194214],
+            [0.112975, 0.794542, 0.092483],
+            [-0.005222, -0.041043, 1.046265],
+        ],
+        [
+            [0.152286, 1.052583, -0.204868],
+            [0.114503, 0.786281, 0.099216],
+            [-0.003882, -0.048116, 1.051998],
+        ],
+    ],
+    deuteranomaly: [
+        [
+            [1, 0, 0],
+            [0, 1, 0],
+            [0, 0, 1],
+        ],
+        [
+            [0.866435, 0.177704, -0.044139],
+            [0.049567, 0.939063, 0.01137],
+            [-0.003453, 0.007233, 0.99622],
+        ],
+        [
+            [0.760729, 0.319078, -0.079807],
+            [0.090568, 0.889315, 0.020117],
+            [-0.006027, 0.013325, 0.992702],
+        ],
+        [
+            [0.675425, 0.43385, -0.109275],
+            [0.125303, 0.847755, 0.026942],
+            [-0.00795, 0.018572, 0.989378],
+        ],
+        [
+            [0.605511, 0.52856, -0.134071],
+            [0.155318, 0.812366, 0.032316],
+            [-0.009376, 0.023176, 0.9862],
+        ],
+        [
+            [0.547494, 0.607765, -0.155259],
+            [0.181692, 0.781742, 0.036566],
+            [-0.01041, 0.027275, 0.983136],
+        ],
+        [
+            [0.498864, 0.674741, -0.173604],
+            [0.205199, 0.754872, 0.039929],
+            [-0.011131, 0.030969, 0.980162],
+        ],
+        [
+            [0.457771, 0.731899, -0.18967],
+            [0.226409, 0.731012, 0.042579],
+            [-0.011595, 0.034333, 0.977261],
+        ],
+        [
+            [0.422823, 0.781057, -0.203881],
+            [0.245752, 0.709602, 0.044646],
+            [-0.011843, 0.037423, 0.974421],
+        ],
+        [
+            [0.392952, 0.82361, -0.216562],
+            [0.263559, 0.69021, 0.046232],
+            [-0.01191, 0.040281, 0.97163],
+        ],
+        [
+            [0.367322, 0.860646, -0.227968],
+            [0.280085, 0.672501, 0.047413],
+            [-0.01182, 0.04294, 0.968881],
+        ],
+    ],
+    tritanomaly: [
+        [
+            [1, 0, 0],
+            [0, 1, 0],
+            [0, 0, 1],
+        ],
+        [
+            [0.92667, 0.092514, -0.019184],
+            [0.021191, 0.964503, 0.014306],
+            [0.008437, 0.054813, 0.93675],
+        ],
+        [
+            [0.89572, 0.13333, -0.02905],
+            [0.029997, 0.9454, 0.024603],
+            [0.013027, 0.104707, 0.882266],
+        ],
+        [
+            [0.905871, 0.127791, -0.033662],
+            [0.026856, 0.941251, 0.031893],
+            [0.01341, 0.148296, 0.838294],
+        ],
+        [
+            [0.948035, 0.08949, -0.037526],
+            [0.014364, 0.946792, 0.038844],
+            [0.010853, 0.193991, 0.795156],
+        ],
+        [
+            [1.017277, 0.027029, -0.044306],
+            [-0.006113, 0.958479, 0.047634],
+            [0.006379, 0.248708, 0.744913],
+        ],
+        [
+            [1.104996, -0.046633, -0.058363],
+            [-0.032137, 0.971635, 0.060503],
+            [0.001336, 0.317922, 0.680742],
+        ],
+        [
+            [1.193214, -0.109812, -0.083402],
+            [-0.058496, 0.97941, 0.079086],
+            [-0.002346, 0.403492, 0.598854],
+        ],
+        [
+            [1.257728, -0.139648, -0.118081],
+            [-0.078003, 0.975409, 0.102594],
+            [-0.003316, 0.501214, 0.502102],
+        ],
+        [
+            [1.278864, -0.125333, -0.153531],
+            [-0.084748, 0.957674, 0.127074],
+            [-0.000989, 0.601151, 0.399838],
+        ],
+        [
+            [1.255528, -0.076749, -0.178779],
+            [-0.078411, 0.930809, 0.147602],
+            [0.004733, 0.691367, 0.3039],
+        ],
+    ],
+} satisfies Record<string, number[][][]>;
+
+/**
+ * Color vision deficiency simulation matrices at full severity, applied to linear sRGB.
+ *
+ * @remarks
+ * - `protanopia`, `deuteranopia` and `tritanopia` are the Machado, Oliveira and Fernandes (2009) matrices
+ *   for severity 1.0, the last entries of `CVD_SEVERITY_MATRICES`.
+ * - `achromatopsia` projects every channel onto the sRGB relative luminance, i.e., the `Y` row of `SRGB_to_XYZD65`.
+ *
+ * @see {@link https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html|A Physiologically-based Model for Simulation of Color Vision Deficiency}
+ */
+export const CVD_MATRICES = {
+    protanopia: CVD_SEVERITY_MATRICES.protanomaly[10],
+    deuteranopia: CVD_SEVERITY_MATRICES.deuteranomaly[10],
+    tritanopia: CVD_SEVERITY_MATRICES.tritanomaly[10],
+    achromatopsia: [MATRICES.SRGB_to_XYZD65[1], MATRICES.SRGB_to_XYZD65[1], MATRICES.SRGB_to_XYZD65[1]],
+} satisfies Record<string, number[][]>;
+
+/**
+ * Error redistribution matrices for daltonization, applied to the linear sRGB difference between a color and
+ * its simulation.
+ *
+ * @remarks
+ * Protan and deutan errors (lost red-green contrast) are shifted into the green and blue channels, and tritan errors
+ * (lost blue-yellow contrast) into the red and green channels, following Fidaner, Lin and Ozguven (2005).
+ *
+ * @see {@link https://daltonize.org/|Daltonize}
+ */
+export const DALTONIZATION_MATRICES = {
+    protanopia: [
+        [0, 0, 0],
+        [0.7, 1, 0],
+        [0.7, 0, 1],
+    ],
+    deuteranopia: [
+        [0, 0, 0],
+        [0.7, 1, 0],
+        [0.7, 0, 1],
+    ],
+    tritanopia: [
+        [1, 0, 0.7],
+        [0, 1, 0.7],
+        [0, 0, 0],
+    ],
+} satisfies Record<string, number[][]>;
+
 /** A collection of common easing functions for interpolation. */
 export const EASINGS = {
     linear: (t: number) => t,
@@ -104,6 +399,98 @@ export const EASINGS = {
     "ease-in-out-cubic": (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
 };
 
+/**
+ * A collection of spline methods for interpolating a component through more than two colors.
+ *
+ * @remarks
+ * Each method receives the values of one component at evenly spaced colors and a position `t` from 0 to 1:
+ * - `"bezier"`: A single Bézier curve using the colors as control points; passes through the end colors only.
+ * - `"catmull-rom"`: A uniform Catmull-Rom spline; passes through every color with a continuous tangent.
+ * - `"basis"`: A uniform cubic B-spline; smoothest, passes through the end colors only.
+ *
+ * @see {@link https://github.com/d3/d3-interpolate#interpolateBasis|d3-interpolate}
+ */
+export const interpolationMethods = {
+    bezier: (values, t) => {
+        const points = values.slice();
+        for (let n = points.length - 1; n > 0; n--) {
+            for (let i = 0; i < n; i++) points[i] = points[i] + (points[i + 1] - points[i]) * t;
+        }
+        return points[0];
+    },
+    "catmull-rom": (values, t) => {
+        const n = values.length - 1;
+        const i = t >= 1 ? n - 1 : Math.floor(Math.max(0, t) * n);
+        const u = Math.min(1, Math.max(0, t)) * n - i;
+        const p1 = values[i];
+        const p2 = values[i + 1];
+        const p0 = i > 0 ? values[i - 1] : 2 * p1 - p2;
+        const p3 = i < n - 1 ? values[i + 2] : 2 * p2 - p1;
+        return (
+            0.5 *
+            (2 * p1 + (p2 - p0) * u + (2 * p0 - 5 * p1 + 4 * p2 - p3) * u * u + (3 * p1 - p0 - 3 * p2 + p3) * u * u * u)
+        );
+    },
+    basis: (values, t) => {
+        const n = values.length - 1;
+        const i = t >= 1 ? n - 1 : Math.floor(Math.max(0, t) * n);
+        const u = Math.min(1, Math.max(0, t)) * n - i;
+        const v1 = values[i];
+        const v2 = values[i + 1];
+        const v0 = i > 0 ? values[i - 1] : 2 * v1 - v2;
+        const v3 = i < n - 1 ? values[i + 2] : 2 * v2 - v1;
+        const u2 = u * u;
+        const u3 = u2 * u;
+        return (
+            ((1 - 3 * u + 3 * u2 - u3) * v0 +
+                (4 - 6 * u2 + 3 * u3) * v1 +
+                (1 + 3 * u + 3 * u2 - 3 * u3) * v2 +
+                u3 * v3) /
+            6
+        );
+    },
+} satisfies Record<string, InterpolationFunction>;
+
+/**
+ * Tone maps HDR coordinates into the SDR range of the model's target gamut.
+ *
+ * @param coords - Color coordinates in `model`
+ * @param model - Color model of the coordinates
+ * @param curve - Maps linear Rec. 2100 RGB, where 1 is SDR white, into the 0–1 range
+ * @returns Tone mapped coordinates in `model`, clipped to the target gamut
+ *
+ * @remarks
+ * Colors within the target gamut are returned unchanged, and colors without components above SDR white are only clipped.
+ */
+// eslint-disable-next-line no-unused-vars
+function toneMap(coords: number[], model: ColorFunction, curve: (rgb: number[]) => number[]) {
+    let { targetGamut } = colorModels[model] as ColorModelConverter;
+    if (targetGamut === null) return coords;
+    if (targetGamut === undefined) targetGamut = "srgb";
+
+    const color = new Color(model, coords);
+    if (color.inGamut(targetGamut as ColorSpace, 1e-5)) return coords;
+
+    const rgb = color.in("rec2100-linear").toArray({ fit: "none", precision: null }).slice(0, 3);
+    const mapped = new Color("rec2100-linear", Math.max(...rgb) > 1 ? curve(rgb) : rgb)
+        .in(targetGamut as ColorSpace)
+        .toArray({ fit: "clip", precision: null })
+        .slice(0, 3);
+    return new Color(targetGamut as ColorSpace, mapped).in(model).toArray({ fit: "none", precision: null }).slice(0, 3);
+}
+
+/**
+ * Computes the knee of the BT.2390 EETF, below which SDR content passes through unchanged.
+ *
+ * @param peak - Content peak in linear light, where 1 is SDR white
+ * @returns The knee in the PQ domain, normalized to the content peak
+ *
+ * @see {@link https://www.itu.int/pub/R-REP-BT.2390|ITU-R BT.2390, Section 5.4}
+ */
+function BT2390_knee(peak: number) {
+    return 1.5 * (LINEAR_to_PQ(1) / LINEAR_to_PQ(peak)) - 0.5;
+}
+
 /**
  * A collection of color coordinate fitting methods used to ensure color values conform to specific constraints or gamuts.
  *
@@ -112,8 +499,18 @@ export const EASINGS = {
  * - `"clip"`: Simple clipping to gamut boundaries (W3C Color 4, Section 13.1.1).
  * - `"chroma-reduction"`: Chroma reduction with local clipping in OKLCh (W3C Color 4, Section 13.1.5).
  * - `"css-gamut-map"`: CSS Gamut Mapping algorithm for RGB destinations (W3C Color 4, Section 13.2).
+ * - `"hct-chroma"`: Chroma reduction in HCT to the gamut boundary, keeping hue and tone, as Material Design's HCT
+ *   solver does.
+ * - `"bt2390"`: BT.2390 EETF roll-off of the maximum RGB component in the PQ domain (ITU-R BT.2390, Section 5.4).
+ * - `"reinhard"`: Extended Reinhard tone mapping of luminance above the BT.2390 knee, with the content peak mapped to
+ *   SDR white.
+ *
+ * The tone mapping methods take the content peak from the `headroom` option, in stops above SDR white
+ * (defaults to `config.defaults.headroom`), and map it to the SDR white of the target gamut. Colors within the
+ * target gamut are returned unchanged, and colors without components above SDR white are clipped.
  *
  * @see {@link https://www.w3.org/TR/css-color-4/|CSS Color Module Level 4}
+ * @see {@link https://www.itu.int/pub/R-REP-BT.2390|ITU-R BT.2390}
  */
 export const fitMethods = {
     "chroma-reduction": (coords, model) => {
@@ -219,8 +616,131 @@ export const fitMethods = {
 
         return clipped;
     },
+    "hct-chroma": (coords, model): number[] => {
+        let { targetGamut } = colorModels[model] as ColorModelConverter;
+        if (targetGamut === null) return coords;
+        if (targetGamut === undefined) targetGamut = "srgb";
+
+        const color = new Color(model, coords);
+        if (color.inGamut(targetGamut as ColorSpace, 1e-5)) return coords;
+
+        const [H, C, T] = color.in("hct").toArray({ fit: "none", precision: null });
+        const tone = Math.min(100, Math.max(0, T));
+        const clamped = new Color("hct", [H, C, tone]);
+        if (clamped.inGamut(targetGamut as ColorSpace, 1e-5))
+            return clamped.in(model).toArray({ fit: "none", precision: null }).slice(0, 3);
+
+        return new Color("xyz-d65", HCT_gamutBoundary(H, tone, targetGamut as ColorSpace))
+            .in(model)
+            .toArray({ fit: "none", precision: null })
+            .slice(0, 3);
+    },
+    bt2390: (coords, model, { headroom }): number[] =>
+        toneMap(coords, model, (rgb) => {
+            const peak = LINEAR_to_PQ(2 ** headroom);
+            const maxLum = LINEAR_to_PQ(1) / peak;
+            const KS = BT2390_knee(2 ** headroom);
+
+            const max = Math.max(...rgb);
+            if (max <= 0) return rgb;
+
+            const E1 = Math.min(1, LINEAR_to_PQ(max) / peak);
+            let E2 = E1;
+            if (E1 >= KS && KS < 1) {
+                const T = (E1 - KS) / (1 - KS);
+                E2 =
+                    (2 * T ** 3 - 3 * T ** 2 + 1) * KS +
+                    (T ** 3 - 2 * T ** 2 + T) * (1 - KS) +
+                    (-2 * T ** 3 + 3 * T ** 2) * maxLum;
+            }
+
+            const scale = PQ_to_LINEAR(E2 * peak) / max;
+            return rgb.map((v) => v * scale);
+        }),
+    reinhard: (coords, model, { headroom }): number[] =>
+        toneMap(coords, model, (rgb) => {
+            const peak = 2 ** headroom;
+            const [, Y] = multiplyMatrices(MATRICES.REC2020_to_XYZD65, rgb);
+            if (peak <= 1) return rgb;
+
+            const knee = PQ_to_LINEAR(BT2390_knee(peak) * LINEAR_to_PQ(peak));
+            if (Y <= knee) return rgb;
+
+            const x = (Y - knee) / (1 - knee);
+            const white = (peak - knee) / (1 - knee);
+            const mapped = knee + ((1 - knee) * x * (1 + x / white ** 2)) / (1 + x);
+            return rgb.map((v) => (v * mapped) / Y);
+        }),
 } satisfies Record<string, FitFunction>;
 
+/**
+ * A collection of contrast algorithms used to measure the legibility of a foreground color against a background.
+ *
+ * @remarks
+ * Each method in `contrastMethods` receives the foreground (text) color first and the background second:
+ * - `"wcag21"`: WCAG 2.1 luminance contrast ratio, from 1 to 21 (symmetric).
+ * - `"apca"`: APCA-W3 0.0.98G-4g signed lightness contrast (Lc), roughly from -108 to 106 (polarity-aware).
+ * - `"weber"`: Weber contrast of the relative luminances, from 0 to 50000 (symmetric).
+ * - `"michelson"`: Michelson contrast of the relative luminances, from 0 to 1 (symmetric).
+ * - `"delta-phi"`: ΔΦ* lightness difference based on CIE L*, from 0 to ~105 (symmetric).
+ *
+ * @see {@link https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio|WCAG 2.1 Contrast Ratio}
+ * @see {@link https://github.com/Myndex/apca-w3|APCA-W3 reference implementation}
+ */
+export const contrastMethods = {
+    wcag21: (foreground, background) => {
+        const [, L1] = foreground.in("xyz-d65").toArray({ fit: "none", precision: null });
+        const [, L2] = background.in("xyz-d65").toArray({ fit: "none", precision: null });
+        return (Math.max(L1, L2) + 0.05) / (Math.min(L1, L2) + 0.05);
+    },
+    apca: (foreground, background) => {
+        const coordsOptions = { fit: "clip", precision: null } as const;
+        const toY = ([r, g, b]: number[]) => 0.2126729 * r ** 2.4 + 0.7151522 * g ** 2.4 + 0.072175 * b ** 2.4;
+
+        const blkThrs = 0.022,
+            blkClmp = 1.414;
+        const softClamp = (Y: number) => (Y > blkThrs ? Y : Y + (blkThrs - Y) ** blkClmp);
+
+        const txtY = softClamp(toY(foreground.in("srgb").toArray(coordsOptions)));
+        const bgY = softClamp(toY(background.in("srgb").toArray(coordsOptions)));
+
+        if (Math.abs(bgY - txtY) < 0.0005) return 0;
+
+        const scale = 1.14,
+            loClip = 0.1,
+            loOffset = 0.027;
+
+        if (bgY > txtY) {
+            const SAPC = (bgY ** 0.56 - txtY ** 0.57) * scale;
+            return SAPC < loClip ? 0 : (SAPC - loOffset) * 100;
+        }
+
+        const SAPC = (bgY ** 0.65 - txtY ** 0.62) * scale;
+        return SAPC > -loClip ? 0 : (SAPC + loOffset) * 100;
+    },
+    weber: (foreground, background) => {
+        const [, Y1] = foreground.in("xyz-d65").toArray({ fit: "none", precision: null });
+        const [, Y2] = background.in("xyz-d65").toArray({ fit: "none", precision: null });
+        const [lighter, darker] = [Math.max(Y1, Y2, 0), Math.max(Math.min(Y1, Y2), 0)];
+        return darker === 0 ? 50000 : (lighter - darker) / darker;
+    },
+    michelson: (foreground, background) => {
+        const [, Y1] = foreground.in("xyz-d65").toArray({ fit: "none", precision: null });
+        const [, Y2] = background.in("xyz-d65").toArray({ fit: "none", precision: null });
+        const [lighter, darker] = [Math.max(Y1, Y2, 0), Math.max(Math.min(Y1, Y2), 0)];
+        const denominator = lighter + darker;
+        return denominator === 0 ? 0 : (lighter - darker) / denominator;
+    },
+    "delta-phi": (foreground, background) => {
+        const φ = (1 + Math.sqrt(5)) / 2;
+        const [L1] = foreground.in("lab").toArray({ fit: "none", precision: null });
+        const [L2] = background.in("lab").toArray({ fit: "none", precision: null });
+        const ΔΦ = Math.abs(Math.max(L1, 0) ** φ - Math.max(L2, 0) ** φ);
+        const contrast = ΔΦ ** (1 / φ) * Math.SQRT2 - 40;
+        return contrast < 7.5 ? 0 : contrast;
+    },
+} satisfies Record<string, ContrastFunction>;
+
 /**
  * Converts RGB to XYZ (D65).
  *
@@ -439,3 +959,514 @@ export function OKLAB_to_OKLCH([L, a, b]: number[]) {
     if (H < 0) H += 360;
     return [L, C, C <= EPSILON ? NaN : H];
 }
+
+/** The luminance of media white in cd/m², used to make relative XYZ absolute for HDR color spaces. */
+const WHITE_LUMINANCE = 203;
+
+/** Constants of the Jzazbz PQ-like transfer function. */
+const JZ = {
+    b: 1.15,
+    g: 0.66,
+    n: 2610 / 2 ** 14,
+    p: (1.7 * 2523) / 2 ** 5,
+    c1: 3424 / 2 ** 12,
+    c2: 2413 / 2 ** 7,
+    c3: 2392 / 2 ** 7,
+    d: -0.56,
+    d0: 1.6295499532821565e-11,
+};
+
+/**
+ * Converts XYZ (D65) to Jzazbz.
+ *
+ * @param xyz - [X, Y, Z] relative to a media white of 203 cd/m², so Y = 1 is SDR reference white
+ * @returns [Jz, az, bz] with Jz in range 0–1
+ *
+ * @see {@link https://doi.org/10.1364/OE.25.015131|Perceptually uniform color space for image signals including high dynamic range and wide gamut}
+ */
+export function XYZD65_to_JZAZBZ(xyz: number[]) {
+    const { b, g, n, p, c1, c2, c3, d, d0 } = JZ;
+    const [Xa, Ya, Za] = xyz.map((v) => v * WHITE_LUMINANCE);
+    const Xm = b * Xa - (b - 1) * Za;
+    const Ym = g * Ya - (g - 1) * Xa;
+
+    const LMS = multiplyMatrices(MATRICES.XYZ_to_JZLMS, [Xm, Ym, Za]);
+    const PQLMS = LMS.map((v) => {
+        const x = Math.max(v, 0) / 10000;
+        return ((c1 + c2 * x ** n) / (1 + c3 * x ** n)) ** p;
+    });
+
+    const [Iz, az, bz] = multiplyMatrices(MATRICES.JZLMS_to_IZAZBZ, PQLMS);
+    return [((1 + d) * Iz) / (1 + d * Iz) - d0, az, bz];
+}
+
+/**
+ * Converts Jzazbz to XYZ (D65).
+ *
+ * @param jzazbz - [Jz, az, bz] with Jz in range 0–1
+ * @returns [X, Y, Z] relative to a media white of 203 cd/m²
+ */
+export function JZAZBZ_to_XYZD65([Jz, az, bz]: number[]) {
+    const { b, g, n, p, c1, c2, c3, d, d0 } = JZ;
+    const Iz = (Jz + d0) / (1 + d - d * (Jz + d0));
+
+    const PQLMS = multiplyMatrices(MATRICES.IZAZBZ_to_JZLMS, [Iz, az, bz]);
+    const LMS = PQLMS.map((v) => {
+        const x = Math.max(v, 0) ** (1 / p);
+        return 10000 * Math.max((c1 - x) / (c3 * x - c2), 0) ** (1 / n);
+    });
+
+    const [Xm, Ym, Za] = multiplyMatrices(MATRICES.JZLMS_to_XYZ, LMS);
+    const Xa = (Xm + (b - 1) * Za) / b;
+    const Ya = (Ym + (g - 1) * Xa) / g;
+    return [Xa, Ya, Za].map((v) => v / WHITE_LUMINANCE);
+}
+
+/** Constants of the SMPTE ST 2084 perceptual quantizer (PQ). */
+const PQ = {
+    m1: 2610 / 16384,
+    m2: (2523 / 4096) * 128,
+    c1: 3424 / 4096,
+    c2: (2413 / 4096) * 32,
+    c3: (2392 / 4096) * 32,
+};
+
+/**
+ * Converts a PQ signal to linear light, as relative luminance with media white at 1.
+ *
+ * @param c - PQ signal in range 0–1
+ * @returns Linear light, where 1 is 203 cd/m² and 10000 / 203 is the PQ peak
+ *
+ * @see {@link https://www.itu.int/rec/R-REC-BT.2100|ITU-R BT.2100, Table 4}
+ */
+export function PQ_to_LINEAR(c: number) {
+    const { m1, m2, c1, c2, c3 } = PQ;
+    const x = Math.max(c, 0) ** (1 / m2);
+    return (10000 / WHITE_LUMINANCE) * (Math.max(x - c1, 0) / (c2 - c3 * x)) ** (1 / m1);
+}
+
+/**
+ * Converts linear light, as relative luminance with media white at 1, to a PQ signal.
+ *
+ * @param c - Linear light, where 1 is 203 cd/m²
+ * @returns PQ signal in range 0–1
+ *
+ * @see {@link https://www.itu.int/rec/R-REC-BT.2100|ITU-R BT.2100, Table 4}
+ */
+export function LINEAR_to_PQ(c: number) {
+    const { m1, m2, c1, c2, c3 } = PQ;
+    const x = ((Math.max(c, 0) * WHITE_LUMINANCE) / 10000) ** m1;
+    return ((c1 + c2 * x) / (1 + c3 * x)) ** m2;
+}
+
+/**
+ * Converts linear Rec. 2100 to ICtCp.
+ *
+ * @param rgb - [R, G, B] in linear light with Rec. 2020 primaries, where 1 is 203 cd/m²
+ * @returns [I, Ct, Cp] with I in range 0–1
+ *
+ * @see {@link https://www.itu.int/rec/R-REC-BT.2100|ITU-R BT.2100}
+ */
+export function REC2100LINEAR_to_ICTCP(rgb: number[]) {
+    const LMS = multiplyMatrices(MATRICES.REC2020_to_ICTCP_LMS, rgb);
+    return multiplyMatrices(MATRICES.ICTCP_LMS_to_ICTCP, LMS.map(LINEAR_to_PQ));
+}
+
+/**
+ * Converts ICtCp to linear Rec. 2100.
+ *
+ * @param ictcp - [I, Ct, Cp] with I in range 0–1
+ * @returns [R, G, B] in linear light with Rec. 2020 primaries, where 1 is 203 cd/m²
+ */
+export function ICTCP_to_REC2100LINEAR(ictcp: number[]) {
+    const LMS = multiplyMatrices(MATRICES.ICTCP_to_ICTCP_LMS, ictcp).map(PQ_to_LINEAR);
+    return multiplyMatrices(MATRICES.ICTCP_LMS_to_REC2020, LMS);
+}
+
+/**
+ * Converts JzCzhz to Jzazbz.
+ *
+ * @param jzczhz - [Jz, Cz, hz] with hz in degrees
+ * @returns [Jz, az, bz]
+ */
+export function JZCZHZ_to_JZAZBZ([Jz, Cz, hz]: number[]) {
+    const h = isNaN(hz) ? 0 : (hz * Math.PI) / 180;
+    return [Jz, Cz * Math.cos(h), Cz * Math.sin(h)];
+}
+
+/**
+ * Converts Jzazbz to JzCzhz.
+ *
+ * @param jzazbz - [Jz, az, bz]
+ * @returns [Jz, Cz, hz] with hz in degrees, or NaN for achromatic colors
+ */
+export function JZAZBZ_to_JZCZHZ([Jz, az, bz]: number[]) {
+    const Cz = Math.hypot(az, bz);
+    let hz = (Math.atan2(bz, az) * 180) / Math.PI;
+    if (hz < 0) hz += 360;
+    return [Jz, Cz, Cz <= EPSILON ? NaN : hz];
+}
+
+/**
+ * Computes the CAM16 viewing environment for a set of viewing conditions.
+ *
+ * @param conditions - The viewing conditions, defaults to `config.viewingConditions`.
+ * @returns The derived environment parameters used by the CAM16 conversions.
+ *
+ * @remarks
+ * The environment for `config.viewingConditions` is cached, and the cache is cleared by `configure()`.
+ *
+ * @see {@link https://doi.org/10.1002/col.22131|Comprehensive color solutions: CAM16, CAT16, and CAM16-UCS}
+ */
+export function cam16Environment(conditions: ViewingConditions = config.viewingConditions): CAM16Environment {
+    const isDefault = conditions === config.viewingConditions;
+    if (isDefault && cache.has("cam16-environment")) return cache.get("cam16-environment");
+
+    const { adaptingLuminance: la, backgroundLuminance: yb, surround, discounting } = conditions;
+    const [f, c, nc] = { dark: [0.8, 0.525, 0.8], dim: [0.9, 0.59, 0.9], average: [1, 0.69, 1] }[surround];
+
+    const whiteXYZ = D65_WHITE.map((v) => v * 100);
+    const whiteRGB = multiplyMatrices(MATRICES.XYZ_to_CAT16, whiteXYZ);
+
+    const k = 1 / (5 * la + 1);
+    const k4 = k ** 4;
+    const fl = k4 * la + 0.1 * (1 - k4) ** 2 * Math.cbrt(5 * la);
+    const n = yb / whiteXYZ[1];
+    const z = 1.48 + Math.sqrt(n);
+    const nbb = 0.725 * n ** -0.2;
+    const d = discounting ? 1 : Math.max(0, Math.min(1, f * (1 - (1 / 3.6) * Math.exp((-la - 42) / 92))));
+    const dRGB = whiteRGB.map((v) => d * (whiteXYZ[1] / v) + 1 - d);
+
+    const adaptedWhite = cam16Adapt(
+        whiteRGB.map((v, i) => v * dRGB[i]),
+        fl
+    );
+    const aW = nbb * (2 * adaptedWhite[0] + adaptedWhite[1] + 0.05 * adaptedWhite[2]);
+
+    const env = { c, nc, fl, flRoot: fl ** 0.25, n, z, nbb, ncb: nbb, dRGB, aW };
+    if (isDefault) cache.set("cam16-environment", env);
+    return env;
+}
+
+function cam16Adapt(rgb: number[], fl: number) {
+    return rgb.map((v) => {
+        const x = (fl * Math.abs(v) * 0.01) ** 0.42;
+        return (400 * Math.sign(v) * x) / (x + 27.13);
+    });
+}
+
+function cam16Unadapt(rgb: number[], fl: number) {
+    return rgb.map((v) => {
+        const abs = Math.abs(v);
+        return Math.sign(v) * (100 / fl) * ((27.13 * abs) / (400 - abs)) ** (1 / 0.42);
+    });
+}
+
+/**
+ * Computes the CAM16 appearance correlates of an XYZ (D65) color.
+ *
+ * @param xyz - [X, Y, Z] in range 0–1
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns Lightness `J`, chroma `C`, hue angle `h`, colorfulness `M`, saturation `s` and brightness `Q`.
+ *
+ * @remarks
+ * Every correlate is also a component of a color model: `J`, `C` and `h` of `cam16`, `M` of `cam16-jmh`, and
+ * `Q` and `s` of `cam16-qsh`.
+ */
+export function CAM16_correlates(xyz: number[], env = cam16Environment()) {
+    const { c, nc, flRoot, fl, n, z, nbb, ncb, dRGB, aW } = env;
+    const cat16 = multiplyMatrices(
+        MATRICES.XYZ_to_CAT16,
+        xyz.map((v) => v * 100)
+    );
+    const [R, G, B] = cam16Adapt(
+        cat16.map((v, i) => v * dRGB[i]),
+        fl
+    );
+
+    const a = R + (-12 * G + B) / 11;
+    const b = (R + G - 2 * B) / 9;
+    const hRad = Math.atan2(b, a);
+    const h = ((hRad * 180) / Math.PI + 360) % 360;
+
+    const et = 0.25 * (Math.cos(hRad + 2) + 3.8);
+    const denominator = R + G + 1.05 * B + 0.305;
+    const t = denominator === 0 ? 0 : ((50000 / 13) * nc * ncb * et * Math.hypot(a, b)) / denominator;
+    const alpha = t ** 0.9 * (1.64 - 0.29 ** n) ** 0.73;
+
+    const A = nbb * (2 * R + G + 0.05 * B);
+    const Jroot = Math.max(0, A / aW) ** (0.5 * c * z);
+    const J = 100 * Jroot ** 2;
+    const C = alpha * Jroot;
+
+    return {
+        J,
+        C,
+        h: C <= EPSILON ? NaN : h,
+        M: C * flRoot,
+        s: 50 * Math.sqrt((c * alpha) / (aW + 4)),
+        Q: (4 / c) * Jroot * (aW + 4) * flRoot,
+    };
+}
+
+/**
+ * Converts XYZ (D65) to CAM16.
+ *
+ * @param xyz - [X, Y, Z] in range 0–1
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [J, C, h] with J in range 0–100
+ */
+export function XYZD65_to_CAM16(xyz: number[], env = cam16Environment()) {
+    const { J, C, h } = CAM16_correlates(xyz, env);
+    return [J, C, h];
+}
+
+/**
+ * Converts CAM16 to XYZ (D65).
+ *
+ * @param cam16 - [J, C, h] with J in range 0–100
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [X, Y, Z] in range 0–1
+ */
+export function CAM16_to_XYZD65([J, C, h]: number[], env = cam16Environment()) {
+    if (J <= 0) return [0, 0, 0];
+
+    const { c, nc, fl, n, z, nbb, ncb, dRGB, aW } = env;
+    const hRad = ((isNaN(h) ? 0 : h) * Math.PI) / 180;
+    const cosh = Math.cos(hRad);
+    const sinh = Math.sin(hRad);
+
+    const Jroot = Math.sqrt(J) * 0.1;
+    const alpha = C / Jroot;
+    const t = (alpha * (1.64 - 0.29 ** n) ** -0.73) ** (10 / 9);
+    const et = 0.25 * (Math.cos(hRad + 2) + 3.8);
+    const A = aW * Jroot ** (2 / c / z);
+
+    const p1 = (50000 / 13) * nc * ncb * et;
+    const p2 = A / nbb;
+    const divisor = 23 * p1 + t * (11 * cosh + 108 * sinh);
+    const r = divisor === 0 ? 0 : (23 * (p2 + 0.305) * t) / divisor;
+
+    const rgb = cam16Unadapt(multiplyMatrices(MATRICES.CAM16_to_RGBA, [p2, r * cosh, r * sinh]), fl);
+    const xyz = multiplyMatrices(
+        MATRICES.CAT16_to_XYZ,
+        rgb.map((v, i) => v / dRGB[i])
+    );
+    return xyz.map((v) => v / 100);
+}
+
+/**
+ * Converts CAM16 to CAM16-UCS.
+ *
+ * @param cam16 - [J, C, h] with J in range 0–100
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [J', a', b'] with J' in range 0–100
+ */
+export function CAM16_to_CAM16UCS([J, C, h]: number[], env = cam16Environment()) {
+    const M = C * env.flRoot;
+    const Mp = Math.log(1 + 0.0228 * M) / 0.0228;
+    const hRad = ((isNaN(h) ? 0 : h) * Math.PI) / 180;
+    return [(1.7 * J) / (1 + 0.007 * J), Mp * Math.cos(hRad), Mp * Math.sin(hRad)];
+}
+
+/**
+ * Converts CAM16-UCS to CAM16.
+ *
+ * @param ucs - [J', a', b'] with J' in range 0–100
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [J, C, h] with J in range 0–100
+ */
+export function CAM16UCS_to_CAM16([Jp, ap, bp]: number[], env = cam16Environment()) {
+    const Mp = Math.hypot(ap, bp);
+    const M = (Math.exp(0.0228 * Mp) - 1) / 0.0228;
+    const C = M / env.flRoot;
+    let h = (Math.atan2(bp, ap) * 180) / Math.PI;
+    if (h < 0) h += 360;
+    return [Jp / (1.7 - 0.007 * Jp), C, C <= EPSILON ? NaN : h];
+}
+
+/**
+ * Converts CAM16 to CAM16 lightness, colorfulness and hue.
+ *
+ * @param cam16 - [J, C, h] with J in range 0–100
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [J, M, h] with J in range 0–100
+ */
+export function CAM16_to_CAM16JMH([J, C, h]: number[], env = cam16Environment()) {
+    return [J, C * env.flRoot, h];
+}
+
+/**
+ * Converts CAM16 lightness, colorfulness and hue to CAM16.
+ *
+ * @param jmh - [J, M, h] with J in range 0–100
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [J, C, h] with J in range 0–100
+ */
+export function CAM16JMH_to_CAM16([J, M, h]: number[], env = cam16Environment()) {
+    return [J, M / env.flRoot, h];
+}
+
+/**
+ * Converts CAM16 to CAM16 brightness, saturation and hue.
+ *
+ * @param cam16 - [J, C, h] with J in range 0–100
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [Q, s, h]
+ */
+export function CAM16_to_CAM16QSH([J, C, h]: number[], env = cam16Environment()) {
+    const { c, flRoot, aW } = env;
+    const Jroot = Math.sqrt(Math.max(0, J) / 100);
+    const alpha = Jroot === 0 ? 0 : C / Jroot;
+    return [(4 / c) * Jroot * (aW + 4) * flRoot, 50 * Math.sqrt((c * alpha) / (aW + 4)), h];
+}
+
+/**
+ * Converts CAM16 brightness, saturation and hue to CAM16.
+ *
+ * @param qsh - [Q, s, h]
+ * @param env - The viewing environment, defaults to the one for `config.viewingConditions`.
+ * @returns [J, C, h] with J in range 0–100
+ */
+export function CAM16QSH_to_CAM16([Q, s, h]: number[], env = cam16Environment()) {
+    const { c, flRoot, aW } = env;
+    const Jroot = (Q * c) / (4 * (aW + 4) * flRoot);
+    const alpha = ((s / 50) ** 2 * (aW + 4)) / c;
+    return [100 * Jroot ** 2, alpha * Jroot, h];
+}
+
+/**
+ * The viewing conditions HCT is defined for: a mid-gray (L* 50) background under an average surround, as used by
+ * Material Design.
+ */
+const HCT_VIEWING_CONDITIONS: ViewingConditions = {
+    adaptingLuminance: (200 / Math.PI) * LSTAR_to_Y(50),
+    backgroundLuminance: LSTAR_to_Y(50) * 100,
+    surround: "average",
+    discounting: false,
+};
+
+function hctEnvironment() {
+    if (!cache.has("hct-environment")) cache.set("hct-environment", cam16Environment(HCT_VIEWING_CONDITIONS));
+    return cache.get("hct-environment") as CAM16Environment;
+}
+
+function LSTAR_to_Y(L: number) {
+    const κ = 24389 / 27;
+    return L > 8 ? ((L + 16) / 116) ** 3 : L / κ;
+}
+
+function Y_to_LSTAR(Y: number) {
+    const κ = 24389 / 27,
+        ε = 216 / 24389;
+    return Y > ε ? 116 * Math.cbrt(Y) - 16 : κ * Y;
+}
+
+/**
+ * Converts XYZ (D65) to HCT.
+ *
+ * @param xyz - [X, Y, Z] in range 0–1
+ * @returns [H, C, T] with the CAM16 hue and chroma under the HCT viewing conditions, and tone (CIE L*) in range 0–100
+ *
+ * @see {@link https://m3.material.io/blog/science-of-color-design|The Science of Color & Design}
+ */
+export function XYZD65_to_HCT(xyz: number[]) {
+    const { C, h } = CAM16_correlates(xyz, hctEnvironment());
+    return [h, C, Y_to_LSTAR(xyz[1])];
+}
+
+/**
+ * Converts HCT to XYZ (D65).
+ *
+ * @param hct - [H, C, T] with tone in range 0–100
+ * @returns [X, Y, Z] in range 0–1, not limited to any RGB gamut
+ *
+ * @remarks
+ * The CAM16 lightness J that yields the requested tone is found with the secant method on log J and log Y,
+ * since tone depends on J, chroma and hue together. CAM16 neutrals carry some chroma, so achromatic requests
+ * (chroma below 1e-4 or a missing hue) return the D65 gray of that tone instead, as Material Design's HCT solver
+ * does.
+ */
+export function HCT_to_XYZD65([H, C, T]: number[]) {
+    if (T <= 0) return [0, 0, 0];
+    if (!(C >= 1e-4) || isNaN(H)) return D65_WHITE.map((v) => v * LSTAR_to_Y(T));
+
+    const env = hctEnvironment();
+    const Y = LSTAR_to_Y(T);
+    let [lnJ0, lnY0] = [Math.log(T), Math.log(CAM16_to_XYZD65([T, C, H], env)[1])];
+    let [lnJ1, lnY1] = [Math.log(T * 1.1), Math.log(CAM16_to_XYZD65([T * 1.1, C, H], env)[1])];
+
+    for (let i = 0; i < 20 && Math.abs(lnY1 - Math.log(Y)) > 1e-12 && lnY1 !== lnY0; i++) {
+        const lnJ = lnJ1 - ((lnY1 - Math.log(Y)) * (lnJ1 - lnJ0)) / (lnY1 - lnY0);
+        [lnJ0, lnY0] = [lnJ1, lnY1];
+        [lnJ1, lnY1] = [lnJ, Math.log(CAM16_to_XYZD65([Math.exp(lnJ), C, H], env)[1])];
+    }
+
+    return CAM16_to_XYZD65([Math.exp(lnJ1), C, H], env);
+}
+
+/**
+ * Finds the color of an HCT hue and tone on the boundary of an RGB gamut, as Material Design's HCT solver does for
+ * colors out of gamut at the requested chroma.
+ *
+ * @param hue - The HCT hue in degrees.
+ * @param tone - The tone in range 0–100.
+ * @param gamut - The RGB color space whose unit cube bounds the result.
+ * @returns [X, Y, Z] (D65) on the gamut boundary
+ *
+ * @remarks
+ * The plane of the tone's luminance cuts the linear RGB cube in a convex polygon. Its vertices are walked to find
+ * the edge whose ends bracket the hue, and that edge is bisected. Near black and white, where no in-gamut color may
+ * have the hue, the result is still a point on that polygon, matching Material's output.
+ *
+ * @see {@link https://github.com/material-foundation/material-color-utilities|Material Color Utilities}
+ */
+function HCT_gamutBoundary(hue: number, tone: number, gamut: ColorSpace) {
+    const primaries = [
+        [1, 0, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+    ].map((rgb) => new Color(gamut, rgb).in("xyz-d65").toArray({ fit: "none", precision: null }));
+    const toXYZ = (rgb: number[]) => [0, 1, 2].map((i) => rgb.reduce((sum, c, j) => sum + c * primaries[j][i], 0));
+    const hueOf = (rgb: number[]) => XYZD65_to_HCT(toXYZ(rgb))[0];
+    const sanitize = (deg: number) => ((deg % 360) + 360) % 360;
+    const inOrder = (a: number, b: number, c: number) => sanitize(b - a) < sanitize(c - a);
+
+    const Y = LSTAR_to_Y(tone);
+    const k = primaries.map(([, y]) => y);
+    let left: number[] | undefined, right: number[] | undefined;
+    let leftHue = 0,
+        rightHue = 0,
+        uncut = true;
+
+    for (let n = 0; n < 12; n++) {
+        const axis = Math.floor(n / 4);
+        const rgb = [0, 0, 0];
+        rgb[(axis + 1) % 3] = n % 4 <= 1 ? 0 : 1;
+        rgb[(axis + 2) % 3] = n % 2;
+        rgb[axis] = (Y - rgb[(axis + 1) % 3] * k[(axis + 1) % 3] - rgb[(axis + 2) % 3] * k[(axis + 2) % 3]) / k[axis];
+        if (!(rgb[axis] >= 0 && rgb[axis] <= 1)) continue;
+
+        const vertexHue = hueOf(rgb);
+        if (!left || !right) {
+            [left, right, leftHue, rightHue] = [rgb, rgb, vertexHue, vertexHue];
+        } else if (uncut || inOrder(leftHue, vertexHue, rightHue)) {
+            uncut = false;
+            if (inOrder(leftHue, hue, vertexHue)) [right, rightHue] = [rgb, vertexHue];
+            else [left, leftHue] = [rgb, vertexHue];
+        }
+    }
+
+    if (!left || !right) return D65_WHITE.map((v) => v * Y);
+
+    let [low, high] = [left, right];
+    const midpoint = () => low.map((c, j) => (c + high[j]) / 2);
+    for (let i = 0; i < 30; i++) {
+        const mid = midpoint();
+        const midHue = hueOf(mid);
+        if (inOrder(leftHue, hue, midHue)) high = mid;
+        else [low, leftHue] = [mid, midHue];
+    }
+
+    return toXYZ(midpoint());
+}
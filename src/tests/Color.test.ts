@@ -1,17 +1,20 @@
 import { Color } from "../Color";
+import { config } from "../config.js";
 import { colorModels } from "../converters.js";
-import { EASINGS, MATRICES } from "../math.js";
-import { ColorModel, ColorModelConverter, ColorSpace, Component, FitMethod } from "../types.js";
+import { CAM16_correlates, EASINGS, MATRICES, XYZD65_to_CAM16, cam16Environment } from "../math.js";
+import { ColorModel, ColorModelConverter, ColorSpace, Component, ContrastMethod, FitMethod } from "../types.js";
 import {
     configure,
     extractBalancedExpression,
     fit,
+    get,
     multiplyMatrices,
     register,
     registerColorBase,
     registerColorFunction,
     registerColorSpace,
     registerColorType,
+    registerContrastMethod,
     registerFitMethod,
     registerNamedColor,
     unregister,
@@ -183,6 +186,501 @@ describe("Color", () => {
         expect(Color.from("#fff").contrast("#000")).toBeCloseTo(21);
     });
 
+    it("should calculate APCA contrast correctly", () => {
+        expect(Color.from("#000").contrastAPCA("#fff")).toBeCloseTo(106.04, 2);
+        expect(Color.from("#fff").contrastAPCA("#000")).toBeCloseTo(-107.88, 2);
+        expect(Color.from("#888").contrastAPCA(Color.from("#fff"))).toBeCloseTo(63.06, 2);
+        expect(Color.from("#fff").contrastAPCA("#888")).toBeCloseTo(-68.54, 2);
+        expect(Color.from("#777").contrastAPCA("#787878")).toBe(0);
+    });
+
+    it("should calculate contrast with different algorithms", () => {
+        const black = Color.from("black");
+
+        expect(black.contrast("white", { algorithm: "wcag21" })).toBeCloseTo(21);
+        expect(black.contrast("white", { algorithm: "apca" })).toBeCloseTo(106.04, 2);
+        expect(black.contrast("white", { algorithm: "weber" })).toBe(50000);
+        expect(black.contrast("white", { algorithm: "michelson" })).toBeCloseTo(1);
+        expect(black.contrast("white", { algorithm: "delta-phi" })).toBeCloseTo(101.4, 1);
+        expect(Color.from("#777").contrast("#787878", { algorithm: "delta-phi" })).toBe(0);
+
+        configure({ defaults: { contrast: "michelson" } });
+        expect(Color.from("#fff").contrast("#777")).toBeCloseTo(0.69, 2);
+        configure({ defaults: { contrast: "wcag21" } });
+
+        expect(() => black.contrast("white", { algorithm: "unknown" as ContrastMethod })).toThrow();
+    });
+
+    it("should resolve contrast-color() with candidates and targets", () => {
+        expect(Color.from("contrast-color(lime)").to("named-color")).toBe("black");
+        expect(Color.from("contrast-color(navy)").to("named-color")).toBe("white");
+        expect(Color.from("contrast-color(#777 vs #888, #fff, #000 to AA)").to("hex-color")).toBe("#000000");
+        expect(Color.from("contrast-color(#777 vs #888, #fff, #000 to 3)").to("hex-color")).toBe("#ffffff");
+        expect(Color.from("contrast-color(#777 vs #888, #999, #fff to AAA)").to("hex-color")).toBe("#ffffff");
+
+        configure({ defaults: { contrast: "apca" } });
+        expect(Color.from("contrast-color(white vs #999, #777, #000 to AA)").to("hex-color")).toBe("#000000");
+        configure({ defaults: { contrast: "wcag21" } });
+
+        expect(Color.from("contrast-color(rgb(255 255 255) vs #eee, #ddd)").to("hex-color")).toBe("#dddddd");
+
+        expect(() => Color.from("contrast-color(red vs blue)")).toThrow();
+        expect(() => Color.from("contrast-color(red to AAAA)")).toThrow();
+        expect(() => Color.from("contrast-color(red to AA vs blue, green)")).toThrow();
+    });
+
+    it("should re-emit preserved expressions", () => {
+        const sources = [
+            "light-dark(red, contrast-color(navy))",
+            "color-mix(in oklch longer hue, red 40%, blue)",
+            "contrast-color(#777 vs #888, #fff, #000 to aa)",
+            "transparent",
+            "currentcolor",
+        ];
+
+        for (const source of sources) {
+            const color = Color.from(source, { preserve: true });
+            expect(color.expression?.source).toBe(source);
+            expect(color.to(color.expression!.type)).toBe(source);
+        }
+
+        const preserved = Color.from("light-dark(red, blue)", { preserve: true });
+        expect(preserved.to("rgb")).toBe("rgb(255 0 0)");
+        expect(preserved.with({ r: 0 }).expression).toBeUndefined();
+        expect(Color.from("light-dark(red, blue)").expression).toBeUndefined();
+        expect(Color.from("currentColor", { preserve: true }).to("currentColor")).toBe("currentcolor");
+
+        const hex = Color.from("#F00", { preserve: true });
+        expect(hex.expression).toBeUndefined();
+        expect(hex.to("hex-color")).toBe("#ff0000");
+        expect(Color.from("RebeccaPurple", { preserve: true }).to("named-color")).toBe("rebeccapurple");
+        expect(Color.from("rgb(255, 0, 0)", { preserve: true }).to("rgb")).toBe("rgb(255 0 0)");
+
+        const outputTypes = get("output-types");
+        for (const type of ["light-dark", "contrast-color", "color-mix", "transparent", "currentColor"] as const) {
+            expect(outputTypes).toContain(type);
+        }
+
+        expect(Color.from("light-dark(hsl(0 100% 50%), blue)").to("rgb")).toBe("rgb(255 0 0)");
+        expect(Color.from("rgb(0 0 0 / 0)").to("transparent")).toBe("transparent");
+        for (const type of ["light-dark", "contrast-color", "color-mix", "transparent", "currentColor"]) {
+            expect(() => Color.from("red").to(type)).toThrow(/can only be output|Only fully transparent/);
+        }
+        expect(() => Color.from("light-dark(red, blue)").to("light-dark")).toThrow();
+    });
+
+    it("should resolve var() references when parsing", () => {
+        const vars = {
+            "--brand": "oklch(0.6 0.2 250)",
+            "--accent": "var(--brand)",
+            "--weight": "25%",
+            "--a": "var(--b)",
+            "--b": "var(--a)",
+        };
+
+        expect(Color.from("var(--accent)", { vars }).equals("oklch(0.6 0.2 250)")).toBe(true);
+        expect(Color.from("var(--missing, var(--Missing, red))", { vars }).to("named-color")).toBe("red");
+        expect(
+            Color.from("color-mix(in srgb, var(--brand) var(--weight), white)", { vars }).equals(
+                Color.from("color-mix(in srgb, oklch(0.6 0.2 250) 25%, white)")
+            )
+        ).toBe(true);
+        expect(
+            Color.from("rgb(var(--r) 0 0)", { vars: (name) => (name === "--r" ? "255" : undefined) }).to("named-color")
+        ).toBe("red");
+
+        const preserved = Color.from("light-dark(var(--Brand, red), blue)", { vars, preserve: true });
+        expect(preserved.to("rgb")).toBe("rgb(255 0 0)");
+        expect(preserved.to("light-dark")).toBe("light-dark(var(--Brand, red), blue)");
+        const themed = Color.from("var(--theme)", { vars: { "--theme": "light-dark(red, blue)" }, preserve: true });
+        expect(themed.to("light-dark")).toBe("light-dark(red, blue)");
+
+        expect(() => Color.from("var(--a)", { vars })).toThrow(/Cyclic/);
+        expect(() => Color.from("var(--missing)", { vars })).toThrow();
+        expect(() => Color.from("var(--brand)")).toThrow();
+    });
+
+    it("should resolve currentColor from the parsing context", () => {
+        expect(Color.from("currentColor").to("named-color")).toBe("black");
+        expect(Color.from("currentColor", { currentColor: "red" }).to("named-color")).toBe("red");
+        expect(
+            Color.from("color-mix(in srgb, currentColor 50%, white)", { currentColor: "red" }).equals(
+                "rgb(255 127.5 127.5)"
+            )
+        ).toBe(true);
+        expect(Color.from("rgb(from currentColor r g b / 0.5)", { currentColor: "blue" }).to("rgb")).toBe(
+            "rgb(0 0 255 / 0.5)"
+        );
+
+        configure({ currentColor: "lime" });
+        expect(Color.from("light-dark(currentColor, red)").to("named-color")).toBe("lime");
+        configure({ currentColor: "black" });
+
+        expect(() => Color.from("currentColor", { currentColor: "currentColor" })).toThrow();
+    });
+
+    it("should resolve theme and system colors from the parsing context", () => {
+        const dark = { theme: "dark" } as const;
+
+        expect(Color.from("light-dark(red, blue)", dark).to("named-color")).toBe("blue");
+        expect(Color.from("rgb(from light-dark(red, blue) r g b)", dark).to("named-color")).toBe("blue");
+        expect(Color.from("color-mix(in srgb, light-dark(red, blue) 100%, white 0%)", dark).to("named-color")).toBe(
+            "blue"
+        );
+        expect(Color.from("light-dark(red, blue)").to("named-color")).toBe("red");
+        expect(config.theme).toBe("light");
+
+        const systemColors = {
+            BrandInk: [
+                [1, 2, 3],
+                [4, 5, 6],
+            ],
+        };
+        expect(Color.from("BrandInk", { systemColors }).to("rgb")).toBe("rgb(1 2 3)");
+        expect(Color.from("light-dark(brandink, canvas)", { systemColors, theme: "dark" }).to("rgb")).toBe(
+            Color.from("canvas", dark).to("rgb")
+        );
+        expect(Color.from("brandink", { systemColors, theme: "dark" }).to("rgb")).toBe("rgb(4 5 6)");
+        expect(Color.isValid("brandink")).toBe(false);
+        expect(Color.isValid("brandink", undefined, { systemColors })).toBe(true);
+        expect(Color.isValid("brandink", "system-color", { systemColors })).toBe(true);
+        expect(Color.type("brandink", true, { systemColors })).toBe("system-color");
+        expect(Color.type("brandink")).toBeUndefined();
+    });
+
+    it("should resolve colors for both color schemes", () => {
+        const { light, dark } = Color.fromSchemes("color-mix(in srgb, light-dark(white, black) 50%, canvastext)");
+        expect(light.equals("rgb(127.5 127.5 127.5)")).toBe(true);
+        expect(dark.equals("rgb(127.5 127.5 127.5)")).toBe(true);
+
+        const text = Color.fromSchemes("rgb(from light-dark(red, blue) r g b / 0.5)");
+        expect(text.light.to("rgb")).toBe("rgb(255 0 0 / 0.5)");
+        expect(text.dark.to("rgb")).toBe("rgb(0 0 255 / 0.5)");
+
+        expect(Color.isSchemeDependent("light-dark(red, blue)")).toBe(true);
+        expect(Color.isSchemeDependent("contrast-color(canvas)")).toBe(true);
+        expect(Color.isSchemeDependent("light-dark(red, red)")).toBe(false);
+        expect(Color.isSchemeDependent("oklch(0.5 0.1 200)")).toBe(false);
+    });
+
+    it("should apply system color presets and forced colors", () => {
+        configure({ systemColorPreset: "high-contrast" });
+        expect(config.systemColorPreset).toBe("high-contrast");
+        expect(Color.from("LinkText").to("rgb")).toBe("rgb(0 0 159)");
+        expect(Color.from("LinkText", { theme: "dark" }).to("rgb")).toBe("rgb(255 255 0)");
+
+        configure({ forcedColors: true });
+        const gray = new Color("rgb", [250, 250, 250, 1]);
+        expect(gray.to("rgb")).toBe("rgb(255 255 255)");
+        expect(gray.toString()).toBe("rgb(255 255 255)");
+        expect(Color.from("hsl(0 0 98)").to("hsl")).toBe("hsl(0 0 100)");
+        expect(gray.to("rgb", { forcedColors: false })).toBe("rgb(250 250 250)");
+        expect(gray.equals("rgb(250 250 250)")).toBe(true);
+        expect(gray.contrast("rgb(120 120 120)")).toBeCloseTo(4.23, 2);
+        expect(gray.mix("rgb(0 0 0)").toArray()).toEqual([125, 125, 125, 1]);
+        expect(Color.from("light-dark(red, blue)", { preserve: true }).to("light-dark")).toBe("light-dark(red, blue)");
+
+        configure({ forcedColors: true, theme: "dark" });
+        expect(Color.from("rgb(10 10 10 / 0.5)").to("rgb")).toBe("rgb(0 0 0 / 0.5)");
+
+        configure({ forcedColors: false, theme: "light", systemColorPreset: "default" });
+        expect(Color.from("LinkText").to("rgb")).toBe("rgb(0 0 255)");
+        expect(() => configure({ systemColorPreset: "unknown" as "default" })).toThrow();
+
+        const canvas = Color.from("Canvas").to("rgb");
+        configure({
+            systemColors: {
+                Canvas: [
+                    [1, 2, 3],
+                    [4, 5, 6],
+                ],
+            },
+        });
+        expect(Color.from("Canvas").to("rgb")).toBe("rgb(1 2 3)");
+        configure({ systemColorPreset: "chromium-windows" });
+        configure({ systemColorPreset: "default" });
+        expect(Color.from("Canvas").to("rgb")).toBe(canvas);
+    });
+
+    it("should map authored colors to system colors by role", () => {
+        const ui = {
+            body: { color: "#333", role: "text" },
+            page: { color: "rgb(250 240 230 / 0.8)", role: "background" },
+            anchor: { color: "rebeccapurple", role: "link" },
+            accent: { color: "AccentColor", role: "button-face" },
+        } as const;
+
+        const light = Color.forceColors(ui);
+        expect(light.body.to("rgb")).toBe(Color.from("CanvasText").to("rgb"));
+        expect(light.page.to("rgb")).toBe("rgb(255 255 255 / 0.8)");
+        expect(light.anchor.to("rgb")).toBe(Color.from("LinkText").to("rgb"));
+        expect(light.accent.to("rgb")).toBe(Color.from("AccentColor").to("rgb"));
+
+        const dark = Color.forceColors(ui, { theme: "dark" });
+        expect(dark.page.to("rgb")).toBe(Color.from("Canvas", { theme: "dark" }).with({ alpha: 0.8 }).to("rgb"));
+
+        expect(() => Color.forceColors({ x: { color: "red", role: "heading" as "text" } })).toThrow();
+    });
+
+    it("should simulate color vision deficiencies", () => {
+        const red = Color.from("red");
+
+        expect(red.simulate("protanopia").to("rgb")).toBe("rgb(109 95 0)");
+        expect(red.simulate("deuteranopia").to("rgb")).toBe("rgb(163 144 0)");
+        expect(red.simulate("tritanopia").to("rgb")).toBe("rgb(255 0 15)");
+        expect(red.simulate("achromatopsia").to("rgb")).toBe("rgb(127 127 127)");
+        expect(red.simulate("deuteranomaly", { severity: 0.5 }).to("rgb")).toBe("rgb(195 118 0)");
+        const [r, g, b] = new Color("srgb-linear", [1, 0, 0])
+            .simulate("deuteranomaly", { severity: 0.55 })
+            .toArray({ fit: "none", precision: null });
+        expect(r).toBeCloseTo((0.547494 + 0.498864) / 2, 10);
+        expect(g).toBeCloseTo((0.181692 + 0.205199) / 2, 10);
+        expect(b).toBeCloseTo((-0.01041 - 0.011131) / 2, 10);
+        expect(red.simulate("protanomaly", { severity: 1 }).to("rgb")).toBe(red.simulate("protanopia").to("rgb"));
+        expect(red.simulate("protanomaly", { severity: 0 }).equals(red)).toBe(true);
+
+        expect(Color.from("white").simulate("deuteranopia").to("rgb")).toBe("rgb(255 255 255)");
+        expect(Color.from("hsl(120 100 25 / 0.5)").simulate("protanopia").to("hsl")).toBe("hsl(54 100 21 / 0.5)");
+
+        expect(() => red.simulate("monochromacy" as "achromatopsia")).toThrow();
+        expect(() => red.simulate("tritanomaly", { severity: 2 })).toThrow();
+    });
+
+    it("should convert to and from CAM16 and CAM16-UCS", () => {
+        const red = Color.from("red");
+        expect(red.to("cam16")).toBe("cam16(46.0257 112.39669 27.39326)");
+        expect(red.to("cam16-ucs")).toBe("cam16-ucs(59.1778 40.81979 21.15288)");
+        expect(Color.from("cam16(46.0257 112.39669 27.39326)").to("rgb")).toBe("rgb(255 0 0)");
+        expect(Color.from("rgb(10 200 30 / 0.5)").in("cam16-ucs").to("rgb")).toBe("rgb(10 200 30 / 0.5)");
+        expect(Color.from("black").in("cam16").toObject()).toEqual({ j: 0, c: 0, h: 0, alpha: 1 });
+        expect(red.in("cam16").with({ j: 70 }).to("rgb")).toBe("rgb(255 83 59)");
+
+        expect(red.to("cam16-jmh")).toBe("cam16-jmh(46.0257 81.25425 27.39326)");
+        expect(red.to("cam16-qsh")).toBe("cam16-qsh(83.92627 98.39524 27.39326)");
+        expect(Color.from("cam16-qsh(83.92627 98.39524 27.39326)").to("rgb")).toBe("rgb(255 0 0)");
+        expect(Color.from("#336699").in("cam16-jmh").to("hex-color")).toBe("#336699");
+        expect(Color.from("#336699").in("cam16-qsh").to("hex-color")).toBe("#336699");
+        expect(red.in("cam16-jmh").with({ m: 40 }).in("cam16").toObject().c).toBeCloseTo(
+            112.39669 * (40 / 81.25425),
+            3
+        );
+        expect(red.in("cam16-qsh").toObject({ precision: null }).s).toBeCloseTo(
+            CAM16_correlates(red.in("xyz-d65").toArray({ fit: "none", precision: null })).s,
+            10
+        );
+
+        const material = {
+            adaptingLuminance: (200 / Math.PI) * 0.18418651851244416,
+            backgroundLuminance: 18.418651851244416,
+        };
+        const xyz = red.in("xyz-d65").toArray({ fit: "none", precision: null });
+        const [J, C, h] = XYZD65_to_CAM16(xyz, cam16Environment({ ...config.viewingConditions, ...material }));
+        expect(J).toBeCloseTo(46.4497, 4);
+        expect(C).toBeCloseTo(113.3564, 4);
+        expect(h).toBeCloseTo(27.4098, 4);
+
+        configure({ viewingConditions: material });
+        expect(red.to("cam16")).toBe("cam16(46.44973 113.3564 27.4098)");
+        configure({ viewingConditions: { adaptingLuminance: (64 / Math.PI) * 0.2, backgroundLuminance: 20 } });
+        expect(red.to("cam16")).toBe("cam16(46.0257 112.39669 27.39326)");
+    });
+
+    it("should convert to and from HCT and generate tonal palettes", () => {
+        const [h, c, t] = Color.from("red").in("hct").toArray({ precision: null });
+        expect(h).toBeCloseTo(27.4098, 4);
+        expect(c).toBeCloseTo(113.3564, 4);
+        expect(t).toBeCloseTo(53.2371, 4);
+        expect(Color.from("blue").in("hct").to("rgb")).toBe("rgb(0 0 255)");
+        expect(Color.from("hct(209.54481 1.89771 53.58501)").to("rgb")).toBe("rgb(128 128 128)");
+
+        const solved = Color.from("hct(120 150 50)").within("srgb", "hct-chroma");
+        expect(solved.inGamut("srgb")).toBe(true);
+        expect(solved.to("hct")).toBe("hct(120 52.75243 50)");
+
+        const palette = Color.tonalPalette("#6750a4", [10, 40, 80, 90, 100]);
+        expect(palette.map((color) => color.to("hex-color"))).toEqual([
+            "#22005d",
+            "#6750a4",
+            "#cfbcff",
+            "#e9ddff",
+            "#ffffff",
+        ]);
+        expect(palette.every((color) => color.model === "hct")).toBe(true);
+        expect(Color.tonalPalette("red")).toHaveLength(13);
+        expect(() => Color.tonalPalette("red", [120])).toThrow();
+    });
+
+    it("should match Material Design's tonal palettes", () => {
+        const hex = (color: string) => Color.tonalPalette(color).map((tone) => tone.to("hex-color"));
+        expect(hex("#ff0000")).toEqual([
+            "#000000",
+            "#410000",
+            "#690100",
+            "#930100",
+            "#c00100",
+            "#ef0000",
+            "#ff5540",
+            "#ff8a78",
+            "#ffb4a8",
+            "#ffdad4",
+            "#ffedea",
+            "#fffbff",
+            "#ffffff",
+        ]);
+        expect(hex("#6750a4")).toEqual([
+            "#000000",
+            "#22005d",
+            "#381e72",
+            "#4f378a",
+            "#6750a4",
+            "#8069bf",
+            "#9a83db",
+            "#b69df7",
+            "#cfbcff",
+            "#e9ddff",
+            "#f6eeff",
+            "#fffbff",
+            "#ffffff",
+        ]);
+    });
+
+    it("should generate neutral tonal palettes from achromatic colors", () => {
+        expect(Color.tonalPalette("#000000").map((tone) => tone.to("hex-color"))).toEqual([
+            "#000000",
+            "#1b1b1b",
+            "#303030",
+            "#474747",
+            "#5e5e5e",
+            "#777777",
+            "#919191",
+            "#ababab",
+            "#c6c6c6",
+            "#e2e2e2",
+            "#f1f1f1",
+            "#fcfcfc",
+            "#ffffff",
+        ]);
+        expect(Color.from("hct(0 0 50)").to("hex-color")).toBe("#777777");
+    });
+
+    it("should convert to and from Jzazbz and JzCzhz", () => {
+        expect(Color.from("white").to("jzazbz")).toBe("jzazbz(0.22207 -0.00016 -0.00012)");
+        expect(Color.from("red").to("jzazbz")).toBe("jzazbz(0.13438 0.11789 0.11188)");
+        expect(Color.from("red").to("jzczhz")).toBe("jzczhz(0.13438 0.16252 43.50235)");
+        expect(Color.from("#336699").in("jzczhz").to("hex-color")).toBe("#336699");
+        expect(Color.from("color(rec2020 0.2 0.9 0.1)").in("jzazbz").equals("color(rec2020 0.2 0.9 0.1)")).toBe(true);
+
+        const hdr = Color.from("color(xyz-d65 5 5 5)").in("jzazbz");
+        expect(hdr.toObject().jz).toBeGreaterThan(Color.from("white").in("jzazbz").toObject().jz);
+
+        expect(Color.from("red").deltaEJz("red")).toBe(0);
+        expect(Color.from("red").deltaEJz("orange")).toBeCloseTo(0.09415, 5);
+        expect(Color.from("white").deltaEJz("gray")).toBeCloseTo(0.1038, 4);
+        expect(Color.distinguishability(["red", "orange"], { method: "deltaEJz" }).normal.min).toBeCloseTo(0.09415, 5);
+    });
+
+    it("should convert to and from Rec. 2100 and ICtCp", () => {
+        const white = Color.from("white");
+        expect(white.to("rec2100-pq")).toBe("color(rec2100-pq 0.58069 0.58069 0.58069)");
+        expect(white.to("rec2100-hlg")).toBe("color(rec2100-hlg 0.74999 0.74999 0.74999)");
+        expect(white.to("rec2100-linear")).toBe("color(rec2100-linear 1 1 1)");
+        expect(white.to("ictcp")).toBe("ictcp(0.58069 0 0)");
+
+        const red = Color.from("red");
+        expect(red.to("rec2100-linear")).toBe("color(rec2100-linear 0.6274 0.0691 0.01639)");
+        expect(red.to("ictcp")).toBe("ictcp(0.42788 -0.1157 0.27873)");
+        for (const space of ["rec2100-pq", "rec2100-hlg", "rec2100-linear", "ictcp"]) {
+            expect(Color.from("#336699").in(space).to("hex-color")).toBe("#336699");
+        }
+
+        const hdr = Color.from("color(rec2100-linear 10 10 10)");
+        expect(hdr.in("rec2100-pq").toArray({ fit: "none", precision: null })[0]).toBeCloseTo(0.82905, 5);
+        expect(hdr.in("ictcp").toArray({ fit: "none", precision: null })[0]).toBeCloseTo(0.82905, 5);
+
+        expect(red.deltaEITP("red")).toBe(0);
+        expect(red.deltaEITP("orange")).toBeCloseTo(137.1706, 4);
+        expect(white.deltaEITP("#fefefe")).toBeCloseTo(0.6725, 4);
+    });
+
+    it("should tone map HDR colors with a configurable headroom", () => {
+        const hdr = Color.from("color(rec2100-linear 4 2 1)");
+        for (const method of ["bt2390", "reinhard"] as const) {
+            const mapped = hdr.within("srgb", method);
+            expect(mapped.model).toBe("rec2100-linear");
+            expect(mapped.inGamut("srgb")).toBe(true);
+            expect(mapped.to("rgb")).not.toBe(hdr.within("srgb", "clip").to("rgb"));
+            expect(hdr.within("srgb", method, 4).to("rgb")).not.toBe(mapped.to("rgb"));
+            expect(Color.from("black").within("srgb", method).to("rgb")).toBe("rgb(0 0 0)");
+
+            for (const sdr of ["white", "red", "rgb(128 128 128)"]) {
+                expect(Color.from(sdr).to("srgb", { fit: method })).toBe(Color.from(sdr).to("srgb"));
+                expect(Color.from(sdr).to("rgb", { fit: method })).toBe(Color.from(sdr).to("rgb"));
+                expect(Color.from(sdr).within("srgb", method).to("rgb")).toBe(Color.from(sdr).to("rgb"));
+            }
+        }
+
+        expect(hdr.within("srgb", "bt2390").to("rec2100-linear")).toBe("color(rec2100-linear 0.78129 0.47569 0.24416)");
+        expect(hdr.within("srgb", "reinhard").to("rec2100-linear")).toBe(
+            "color(rec2100-linear 0.85257 0.66403 0.34966)"
+        );
+        expect(Color.from("color(srgb 0.5 0.2 0.1)").to("srgb", { fit: "bt2390" })).toBe("color(srgb 0.5 0.2 0.1)");
+        expect(hdr.to("srgb", { fit: "reinhard", headroom: 4 })).not.toBe(hdr.to("srgb", { fit: "reinhard" }));
+    });
+
+    it("should preserve out-of-range components in extended range output", () => {
+        const color = Color.from("color(srgb 1.5 -0.2 0.3)");
+        expect(color.to("srgb")).toBe("color(srgb 1 0 0.3)");
+        expect(color.to("srgb", { dynamicRangeLimit: "no-limit" })).toBe("color(srgb 1.5 -0.2 0.3)");
+        expect(color.to("display-p3", { dynamicRangeLimit: "no-limit" })).toBe(
+            "color(display-p3 1.3767 0.25331 0.36177)"
+        );
+        expect(color.to("rgb", { dynamicRangeLimit: "no-limit" })).toBe("rgb(255 0 77)");
+
+        configure({ defaults: { dynamicRangeLimit: "no-limit" } });
+        expect(color.toString()).toBe("color(srgb 1.5 -0.2 0.3)");
+        configure({ defaults: { dynamicRangeLimit: "standard" } });
+        expect(color.toString()).toBe("color(srgb 1 0 0.3)");
+
+        const hdr = Color.from("color(srgb-linear 4 0.5 0)");
+        expect(hdr.inGamut("srgb-linear")).toBe(false);
+        expect(hdr.gamutReport("srgb-linear")).toEqual({ inGamut: false, headroom: 2 });
+        expect(hdr.gamutReport("srgb").headroom).toBeCloseTo(2, 10);
+        expect(Color.from("red").gamutReport("srgb")).toEqual({ inGamut: true, headroom: 0 });
+
+        const bright = Color.from("color(rec2100-linear 10 10 10)").gamutReport("rec2100-pq");
+        expect(bright.inGamut).toBe(true);
+        expect(bright.headroom).toBeCloseTo(Math.log2(10), 10);
+    });
+
+    it("should daltonize colors for color vision deficiencies", () => {
+        expect(Color.from("red").daltonize("protanopia").to("rgb")).toBe("rgb(255 184 203)");
+        expect(Color.from("red").daltonize("deuteranomaly", { severity: 0.5 }).to("rgb")).toBe("rgb(255 103 155)");
+        expect(Color.from("blue").daltonize("tritanopia").to("rgb")).toBe("rgb(213 158 255)");
+        expect(Color.from("gray").daltonize("deuteranopia").to("rgb")).toBe("rgb(128 128 128)");
+        expect(Color.from("hsl(30 80 50 / 0.4)").daltonize("deuteranopia").to("hsl")).toBe("hsl(8 66 71 / 0.4)");
+
+        expect(() => Color.from("red").daltonize("achromatopsia")).toThrow();
+    });
+
+    it("should report palette distinguishability under color vision deficiencies", () => {
+        const report = Color.distinguishability(["#d62728", "#2ca02c", "#1f77b4", "#ff7f0e"]);
+
+        expect(report.normal.min).toBeCloseTo(18.5976, 4);
+        expect(report.normal.pairs.map(({ indices }) => indices)).toEqual([[0, 3]]);
+        expect(report.protanopia.min).toBeCloseTo(1.3313, 4);
+        expect(report.protanopia.pairs.map(({ indices }) => indices)).toEqual([[1, 3]]);
+        expect(report.deuteranopia.pairs.map(({ indices }) => indices)).toEqual([[0, 1]]);
+        expect(report.tritanopia.pairs.map(({ indices }) => indices)).toEqual([[1, 2]]);
+
+        const strict = Color.distinguishability(["red", "green", "blue"], { method: "deltaE2000", threshold: 30 });
+        expect(strict.normal.pairs).toEqual([]);
+        expect(strict.protanopia.min).toBeCloseTo(8.0968, 4);
+        expect(strict.deuteranopia.pairs.map(({ indices }) => indices)).toEqual([[0, 1]]);
+
+        expect(() => Color.distinguishability(["red"])).toThrow();
+        expect(() => Color.distinguishability(["red", "blue"], { method: "deltaE" as "deltaEOK" })).toThrow();
+    });
+
     it("should determine if a color is cool", () => {
         const color = Color.from("rgb(0, 0, 255)");
         const { h } = color.in("hsl").toObject();
@@ -294,6 +792,161 @@ describe("Color", () => {
         const color2 = Color.from("red").in("hsl").mix("lime", { hue: "longer" }).to("named-color");
         expect(color1).toBe("yellow");
         expect(color2).toBe("blue");
+
+        const jz = new Color("jzczhz", [0.1, 0.05, 350]);
+        expect(jz.mix(new Color("jzczhz", [0.1, 0.05, 10]), { hue: "shorter" }).toObject().hz).toBeCloseTo(0, 10);
+        expect(jz.mix(new Color("jzczhz", [0.1, 0.05, 10]), { hue: "longer" }).toObject().hz).toBeCloseTo(180, 10);
+
+        const translucent = Color.from("color(srgb .1 .2 .3 / .5)");
+        const premultiplied = translucent.mix("color(srgb .5 .6 .7 / .8)");
+        const straight = translucent.mix("color(srgb .5 .6 .7 / .8)", { premultiplied: false });
+        expect(premultiplied.equals("color(srgb 0.346154 0.446154 0.546154 / 0.65)", 1e-6)).toBe(true);
+        expect(straight.equals("color(srgb 0.3 0.4 0.5 / 0.65)")).toBe(true);
+    });
+
+    it("should mix any number of colors by weight", () => {
+        const even = Color.mixAll(["red", "lime", "blue"], [], { in: "srgb" });
+        expect(even.equals("color(srgb 0.333333 0.333333 0.333333)", 1e-6)).toBe(true);
+
+        const weighted = Color.mixAll(["red", "lime", "blue"], [0.5, undefined, 0.25], { in: "srgb" });
+        expect(weighted.equals("color(srgb 0.5 0.25 0.25)")).toBe(true);
+
+        const scaled = Color.mixAll(["red", "lime", "blue"], [0.8, 0.8, 0.4], { in: "srgb" });
+        expect(scaled.equals("color(srgb 0.4 0.4 0.2)")).toBe(true);
+
+        const faded = Color.mixAll(["red", "lime"], [0.2, 0.2], { in: "srgb" });
+        expect(faded.equals("color(srgb 0.5 0.5 0 / 0.4)")).toBe(true);
+
+        expect(Color.mixAll(["red", "blue"]).equals(Color.from("red").in("oklab").mix("blue"))).toBe(true);
+        expect(
+            Color.from("color-mix(in srgb, red 50%, lime, blue 25%)").equals("color(srgb 0.5 0.25 0.25)", 1e-6)
+        ).toBe(true);
+
+        expect(
+            Color.from("color-mix(in oklab, red calc(100% / 3), blue)").equals(
+                Color.mixAll(["red", "blue"], [1 / 3]),
+                1e-6
+            )
+        ).toBe(true);
+
+        expect(Color.isValid("color-mix(in srgb, red, lime, blue)")).toBe(true);
+        expect(Color.isValid("color-mix(in hsl longer hue, red 10%, lime 20%, blue 30%, white)")).toBe(true);
+        expect(
+            Color.from(
+                "color-mix(in srgb, color(srgb 1 0 0) 20%, color(srgb 0 1 0) 20%, color(srgb 0 0 1) 20%)"
+            ).equals("color(srgb 0.333333 0.333333 0.333333 / 0.6)", 1e-6)
+        ).toBe(true);
+        expect(
+            Color.from(
+                "color-mix(in srgb, color(srgb .1 .2 .3 / .5), color(srgb .5 .6 .7 / .8), color(srgb .9 .9 .9))"
+            ).equals("color(srgb 0.586957 0.643478 0.7 / 0.766667)", 1e-6)
+        ).toBe(true);
+
+        expect(() => Color.mixAll(["red"])).toThrow();
+        expect(() => Color.mixAll(["red", "blue"], [0, 0])).toThrow();
+        expect(() => Color.mixAll(["red", "blue"], [1.5])).toThrow();
+    });
+
+    it("should interpolate gradients between positioned stops", () => {
+        const { colors, css } = Color.gradient(["red", { color: "lime", position: 0.25 }, "blue"], {
+            in: "srgb",
+            steps: 5,
+        });
+        expect(colors.map((c) => c.to("rgb"))).toEqual([
+            "rgb(255 0 0)",
+            "rgb(0 255 0)",
+            "rgb(0 170 85)",
+            "rgb(0 85 170)",
+            "rgb(0 0 255)",
+        ]);
+        expect(css).toBe(
+            "linear-gradient(in srgb, color(srgb 1 0 0) 0%, color(srgb 0 1 0) 25%, color(srgb 0 0 1) 100%)"
+        );
+
+        const faded = Color.gradient(["red", "transparent"], { in: "srgb", steps: 3 });
+        expect(faded.colors[1].to("rgb")).toBe("rgb(255 0 0 / 0.5)");
+
+        const fixup = Color.gradient(
+            [{ color: "red", position: 0.2 }, "blue", { color: "white", position: 0.1 }, "black"],
+            {
+                in: "srgb",
+            }
+        );
+        expect(fixup.css).toMatch(/ 20%, .* 20%, .* 20%, .* 100%\)$/);
+
+        const hue = Color.gradient(["red", "lime"], { in: "hsl", hue: "longer", steps: 3 });
+        expect(hue.css.startsWith("linear-gradient(in hsl longer hue, ")).toBe(true);
+        expect(hue.colors[1].to("named-color")).toBe("blue");
+
+        expect(() => Color.gradient(["red"])).toThrow();
+        expect(() => Color.gradient(["red", "blue"], { in: "rgb" })).toThrow();
+        expect(() => Color.gradient(["red", "blue"], { in: "lab", hue: "longer" })).toThrow();
+    });
+
+    it("should map values through a color scale", () => {
+        const scale = Color.scale(["#fff", "oklch(0.5 0.2 260)", "black"]).domain([0, 50, 100]).mode("oklab");
+        expect(scale(50).equals("oklch(0.5 0.2 260)")).toBe(true);
+        expect(scale(-10).to("hex-color")).toBe("#ffffff");
+        expect(scale(150).to("hex-color")).toBe("#000000");
+        expect(scale.colors(3).map((c) => c.to("hex-color"))).toEqual([
+            "#ffffff",
+            Color.from("oklch(0.5 0.2 260)").to("hex-color"),
+            "#000000",
+        ]);
+
+        const gray = Color.scale(["white", "black"]).mode("srgb").domain([0, 100]);
+        expect(gray(50).equals("rgb(127.5 127.5 127.5)")).toBe(true);
+        expect(gray.padding(0.25)(0).to("rgb")).toBe(
+            Color.from("white").in("srgb").mix("black", { amount: 0.25 }).to("rgb")
+        );
+        expect(gray.padding(0).gamma(2)(25).equals("rgb(127.5 127.5 127.5)")).toBe(true);
+
+        gray.gamma(1).classes(2);
+        expect(gray(10).to("rgb")).toBe("rgb(255 255 255)");
+        expect(gray(60).to("rgb")).toBe("rgb(0 0 0)");
+        gray.classes([0, 20, 80, 100]);
+        expect(gray(50).equals("rgb(127.5 127.5 127.5)")).toBe(true);
+
+        expect(() => Color.scale(["red"])).toThrow();
+        expect(() => Color.scale(["red", "blue", "lime"]).domain([0, 1, 2, 3])).toThrow();
+        expect(() => gray.padding(0.6)).toThrow();
+        expect(() => gray.padding(-0.1)).toThrow();
+        expect(() => gray.padding([0.5, 0.5])).toThrow();
+        expect(() => gray.padding([0.2, 0.7])).not.toThrow();
+    });
+
+    it("should interpolate through multiple colors with splines", () => {
+        const stops = ["oklch(0.9 0.05 90)", "oklch(0.6 0.2 30)", "oklch(0.3 0.1 250)", "oklch(0.1 0.02 250)"];
+        const catmullRom = Color.scale(stops).mode("oklch").interpolation("catmull-rom");
+        const basis = Color.scale(stops).mode("oklch").interpolation("basis");
+        const bezier = Color.scale(stops).mode("oklch").interpolation("bezier");
+
+        expect(catmullRom(1 / 3).equals(stops[1])).toBe(true);
+        expect(catmullRom(2 / 3).equals(stops[2])).toBe(true);
+        expect(basis(0).equals(stops[0])).toBe(true);
+        expect(basis(1).equals(stops[3])).toBe(true);
+        expect(basis(1 / 3).equals(stops[1])).toBe(false);
+        expect(bezier(0.5).in("oklch").coords[0]).toBeCloseTo(0.4625);
+
+        const [, l1] = catmullRom.colors(7).map((c) => c.coords[0]);
+        expect(l1).toBeCloseTo(0.75);
+
+        const hue = Color.gradient(["red", "lime", "blue"], {
+            in: "hsl",
+            hue: "longer",
+            steps: 5,
+            interpolation: "basis",
+        });
+        expect(hue.colors.map((c) => c.to("named-color"))).toEqual(["red", "blue", "lime", "red", "blue"]);
+
+        const faded = Color.gradient(["red", "transparent", "blue"], {
+            in: "srgb",
+            steps: 5,
+            interpolation: "catmull-rom",
+        });
+        expect(faded.colors[1].to("rgb")).toBe("rgb(255 0 0 / 0.375)");
+
+        expect(() => Color.scale(stops).interpolation("cubic" as "basis")).toThrow();
     });
 
     it("should clamp component values when getting components", () => {
@@ -431,10 +1084,10 @@ describe("Color", () => {
         expect(c8.to("hsl")).toBe("hsl(60 100 50)");
 
         const c9 = Color.from("color-mix(in hsl, hsl(0 100 50) 70%, hsl(120 100 50) calc(30% + 20%))");
-        expect(c9.to("hsl")).toBe("hsl(36 100 50)");
+        expect(c9.to("hsl")).toBe("hsl(50 100 50)");
 
         const c10 = Color.from("color-mix(in hsl, hsl(0 100 50) calc(10% + 20%), hsl(120 100 50) calc(30% + 20%))");
-        expect(c10.to("hsl")).toBe("hsl(60 100 50)");
+        expect(c10.to("hsl")).toBe("hsl(75 100 50 / 0.8)");
 
         const c11 = Color.from("color-mix(in hsl, hsl(0 100 50) 80%, hsl(120 100 50) 80%)");
         expect(c11.to("hsl")).toBe("hsl(60 100 50)");
@@ -452,6 +1105,30 @@ describe("Color", () => {
         expect(c15.to("hsl")).toBe("hsl(24 100 50)");
     });
 
+    it("parses decimal and calc() color-mix() weights correctly", () => {
+        expect(Color.isValid("color-mix(in oklab, red calc(100% / 3), blue)")).toBe(true);
+        expect(Color.isValid("color-mix(in hsl, red 33.3%, blue)")).toBe(true);
+        expect(Color.isValid("color-mix(in hsl, hsl(120deg 10% 20%) calc(50% * 3), hsl(30deg 30% 40%))")).toBe(false);
+        expect(Color.isValid("color-mix(in hsl, calc(0% - 10%) hsl(120deg 10% 20%), hsl(30deg 30% 40%))")).toBe(false);
+
+        const cases = [
+            [
+                "color-mix(in srgb, color(srgb .1 .2 .3 / .5) 12.5%, color(srgb .5 .6 .7 / .8) 37.5%)",
+                "color(srgb 0.431034 0.531034 0.631034 / 0.3625)",
+            ],
+            [
+                "color-mix(in srgb, color(srgb .1 .2 .3 / .5) calc(12.5%), color(srgb .5 .6 .7 / .8) calc(25% + 12.5%))",
+                "color(srgb 0.431034 0.531034 0.631034 / 0.3625)",
+            ],
+            [
+                "color-mix(in srgb, calc(100% / 4) color(srgb .1 .2 .3 / .5), color(srgb .5 .6 .7 / .8))",
+                "color(srgb 0.431034 0.531034 0.631034 / 0.725)",
+            ],
+        ];
+
+        cases.forEach(([input, expected]) => expect(Color.from(input).equals(expected, 1e-6)).toBe(true));
+    });
+
     it("should parse calc() expressions correctly", () => {
         const cases = [
             ["rgb(calc(50% + 10%) calc(20% * 3) calc(100% - 30%))", "rgb(153 153 178.5)"],
@@ -575,7 +1252,7 @@ describe("Color registration system", () => {
         /**
          * @see {@link https://www.w3.org/TR/css-color-hdr-1/|CSS Color HDR Module Level 1}
          */
-        registerColorSpace("rec2100-hlg", {
+        registerColorSpace("bt2100-hlg", {
             components: ["r", "g", "b"],
             bridge: "xyz-d65",
             toLinear: (c: number) => {
@@ -598,26 +1275,26 @@ describe("Color registration system", () => {
             fromBridgeMatrix: MATRICES.XYZD65_to_REC2020,
         });
 
-        const rec2100 = Color.from("color(rec2100-hlg none calc(-infinity) 100%)");
-        expect(rec2100.toArray()).toEqual([0, 0, 1, 1]);
-        expect(() => rec2100.with({ r: 0 }).to("xyz-d65")).not.toThrow();
+        const bt2100 = Color.from("color(bt2100-hlg none calc(-infinity) 100%)");
+        expect(bt2100.toArray()).toEqual([0, 0, 1, 1]);
+        expect(() => bt2100.with({ r: 0 }).to("xyz-d65")).not.toThrow();
 
-        const instance = new Color("rec2100-hlg" as ColorModel, [NaN, -Infinity, Infinity]);
+        const instance = new Color("bt2100-hlg" as ColorModel, [NaN, -Infinity, Infinity]);
         expect(instance.toArray()).toEqual([0, 0, 1, 1]);
 
-        const relative = "color(from color(rec2100-hlg 0.7 0.3 0.1) rec2100-hlg r g b)";
-        expect(Color.isValid(relative, "rec2100-hlg"));
+        const relative = "color(from color(bt2100-hlg 0.7 0.3 0.1) bt2100-hlg r g b)";
+        expect(Color.isValid(relative, "bt2100-hlg"));
 
-        const outOfSrgb = Color.from("color(rec2100-hlg 0 1 0)");
+        const outOfSrgb = Color.from("color(bt2100-hlg 0 1 0)");
         expect(outOfSrgb.inGamut("srgb")).toBe(false);
-        expect(outOfSrgb.inGamut("rec2100-hlg")).toBe(true);
+        expect(outOfSrgb.inGamut("bt2100-hlg")).toBe(true);
     });
 
     it("should register a <color-function>", () => {
         /**
          * @see {@link https://www.color.org/hdr/04-Timo_Kunkel.pdf|The Perceptual Quantizer}
          */
-        registerColorSpace("rec2100-pq", {
+        registerColorSpace("bt2100-pq", {
             components: ["r", "g", "b"],
             bridge: "xyz-d65",
             toLinear: (c: number) => {
@@ -653,13 +1330,13 @@ describe("Color registration system", () => {
         /**
          * @see {@link https://www.itu.int/dms_pub/itu-r/opb/rep/R-REP-BT.2390-8-2020-PDF-E.pdf|High dynamic range television for production and international}
          */
-        registerColorFunction("ictcp", {
+        registerColorFunction("itp", {
             components: {
                 i: { index: 0, value: [0, 1], precision: 5 },
                 ct: { index: 1, value: [-1, 1], precision: 5 },
                 cp: { index: 2, value: [-1, 1], precision: 5 },
             },
-            bridge: "rec2100-pq",
+            bridge: "bt2100-pq",
             fromBridge: ([R, G, B]: number[]) => {
                 const pqOETF = (x: number) => {
                     const xp = Math.pow(x, m1);
@@ -702,17 +1379,17 @@ describe("Color registration system", () => {
             },
         });
 
-        const ictcp = Color.from("ictcp(none calc(-infinity) 100%)");
-        expect(ictcp.toArray()).toEqual([0, -1, 1, 1]);
-        expect(() => ictcp.with({ cp: 0 }).to("rgb")).not.toThrow();
+        const itp = Color.from("itp(none calc(-infinity) 100%)");
+        expect(itp.toArray()).toEqual([0, -1, 1, 1]);
+        expect(() => itp.with({ cp: 0 }).to("rgb")).not.toThrow();
 
-        const instance = new Color("ictcp" as ColorModel, [NaN, -Infinity, Infinity]);
+        const instance = new Color("itp" as ColorModel, [NaN, -Infinity, Infinity]);
         expect(instance.toArray()).toEqual([0, -1, 1, 1]);
 
-        const relative = "ictcp(from ictcp(0.5 0.3 -0.2) i ct cp)";
-        expect(Color.isValid(relative, "ictcp"));
+        const relative = "itp(from itp(0.5 0.3 -0.2) i ct cp)";
+        expect(Color.isValid(relative, "itp"));
 
-        const outOfSrgb = Color.from("ictcp(0.8 -0.4 -0.1)");
+        const outOfSrgb = Color.from("itp(0.8 -0.4 -0.1)");
         expect(outOfSrgb.inGamut("srgb")).toBe(false);
         expect(outOfSrgb.inGamut("rec2020")).toBe(true);
     });
@@ -1774,6 +2451,23 @@ describe("Color registration system", () => {
         const fitted = new Color(model, withinGamut).toArray({ fit: "cam16-ucs" as FitMethod });
         expect(fitted).toEqual([...withinGamut, 1]);
     });
+
+    it("should register a contrast method", () => {
+        /**
+         * @see {@link https://www.w3.org/TR/AERT/#color-contrast|Techniques For Accessibility Evaluation And Repair Tools}
+         */
+        registerContrastMethod("AERT Brightness", (foreground, background) => {
+            const brightness = (color: Color) => {
+                const [r, g, b] = color.in("rgb").toArray({ fit: "clip", precision: null });
+                return (r * 299 + g * 587 + b * 114) / 1000;
+            };
+            return Math.abs(brightness(foreground) - brightness(background));
+        });
+
+        expect(get("contrast-methods")).toContain("aert-brightness");
+        expect(Color.from("black").contrast("white", { algorithm: "aert-brightness" as ContrastMethod })).toBe(255);
+        expect(() => registerContrastMethod("apca", () => 0)).toThrow();
+    });
 });
 
 declare module "../Color.js" {
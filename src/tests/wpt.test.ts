@@ -2193,4 +2193,31 @@ describe("Web Platform Tests", () => {
             cases.forEach((c) => expect(Color.isValid(c, "color-mix")).toBe(false));
         }
     });
+
+    it("should test computed <color-mix()> with premultiplied alpha", () => {
+        const cases = [
+            [
+                "color-mix(in srgb, color(srgb .1 .2 .3 / .5), color(srgb .5 .6 .7 / .8))",
+                "color(srgb 0.346154 0.446154 0.546154 / 0.65)",
+            ],
+            [
+                "color-mix(in srgb, color(srgb .1 .2 .3 / .5) 25%, color(srgb .5 .6 .7 / .8))",
+                "color(srgb 0.431034 0.531034 0.631034 / 0.725)",
+            ],
+            [
+                "color-mix(in srgb, color(srgb .1 .2 .3 / .5) 30%, color(srgb .5 .6 .7 / .8) 90%)",
+                "color(srgb 0.431034 0.531034 0.631034 / 0.725)",
+            ],
+            ["color-mix(in srgb, transparent, color(srgb 1 0 0))", "color(srgb 1 0 0 / 0.5)"],
+            ["color-mix(in lab, lab(10 20 30 / .4), lab(50 60 70 / .8))", "lab(36.6667 46.6667 56.6667 / 0.6)"],
+            ["color-mix(in lch, lch(10 20 30deg / .4), lch(50 60 70deg / .8))", "lch(36.6667 46.6667 50 / 0.6)"],
+        ];
+
+        cases.forEach(([input, expected]) => {
+            const actual = Color.from(input).in("srgb").coords;
+            Color.from(expected)
+                .in("srgb")
+                .coords.forEach((v, i) => expect(Math.abs(actual[i] - v)).toBeLessThan(0.0025));
+        });
+    });
 });
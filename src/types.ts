@@ -1,7 +1,7 @@
 import { Color } from "./Color.js";
-import { systemColors } from "./config.js";
+import { forcedColorRoles, systemColorPresets, systemColors } from "./config.js";
 import { namedColors, colorTypes, colorModels, colorBases, colorSpaces } from "./converters.js";
-import { EASINGS, fitMethods } from "./math.js";
+import { CVD_MATRICES, EASINGS, contrastMethods, fitMethods, interpolationMethods } from "./math.js";
 
 /* eslint-disable no-unused-vars */
 
@@ -15,13 +15,82 @@ export type Config = {
         [key: string]: number[][];
     };
 
+    /** The bundled system color palette that `systemColors` was last reset to. */
+    systemColorPreset: SystemColorPreset;
+
+    /** Whether `to()` and `toString()` output the nearest system color, as in forced colors mode. */
+    forcedColors: boolean;
+
+    /** The color `currentColor` resolves to, as a color string. */
+    currentColor: string;
+
+    /** The viewing conditions the `cam16` and `cam16-ucs` models are computed for. */
+    viewingConditions: ViewingConditions;
+
     /** Default options for the engine. */
     defaults: {
         /** Default method for fitting colors into the target gamut. */
         fit: FitMethod;
+
+        /** Default algorithm for measuring contrast between two colors. */
+        contrast: ContrastMethod;
+
+        /** Default HDR headroom of the content in stops above SDR white, used by tone mapping fit methods. */
+        headroom: number;
+
+        /** Default dynamic range limit of the `<color()>` function output. */
+        dynamicRangeLimit: DynamicRangeLimit;
     };
 };
 
+/** Describes the conditions a color is viewed under, as used by CAM16. */
+export type ViewingConditions = {
+    /** The luminance of the adapting field in cd/m², commonly 20% of the white luminance divided by π. */
+    adaptingLuminance: number;
+
+    /** The relative luminance of the background, with the white at 100. */
+    backgroundLuminance: number;
+
+    /** The relative luminance of the surround. */
+    surround: "average" | "dim" | "dark";
+
+    /** Whether the illuminant is fully discounted, i.e., the observer is completely adapted to it. */
+    discounting: boolean;
+};
+
+/** Represents the parameters CAM16 derives from a set of viewing conditions. */
+export type CAM16Environment = {
+    /** The impact of the surround. */
+    c: number;
+
+    /** The chromatic induction factor. */
+    nc: number;
+
+    /** The luminance level adaptation factor. */
+    fl: number;
+
+    /** The fourth root of `fl`. */
+    flRoot: number;
+
+    /** The background induction factor. */
+    n: number;
+
+    /** The base exponential nonlinearity. */
+    z: number;
+
+    /** The brightness induction factor. */
+    nbb: number;
+
+    /** The chromatic induction factor of the background. */
+    ncb: number;
+
+    /** The per-channel degree of adaptation factors. */
+    dRGB: number[];
+
+    /** The achromatic response to the white. */
+    aW: number;
+};
+
 /** Represents a plugin type for the `Color` class. */
 export type Plugin = (colorClass: typeof Color) => void;
 
@@ -46,6 +115,21 @@ export type NamedColor = keyof typeof namedColors;
 /** Represents a `<system-color>` identifier. */
 export type SystemColor = keyof typeof systemColors;
 
+/** Represents a bundled system color palette. */
+export type SystemColorPreset = keyof typeof systemColorPresets;
+
+/** Represents the role an authored color plays in the page, which decides its system color in forced colors mode. */
+export type ForcedColorRole = keyof typeof forcedColorRoles;
+
+/** Represents an authored color together with its role. */
+export type ForcedColorEntry = {
+    /** The authored color string. */
+    color: string;
+
+    /** The role the color plays in the page. */
+    role: ForcedColorRole;
+};
+
 /** Represents the color types that support conversion from XYZ. */
 export type OutputType = {
     [K in ColorType]: (typeof colorTypes)[K] extends {
@@ -62,9 +146,10 @@ export type ColorConverter = {
      * Checks whether a given string is a valid representation of this color type.
      *
      * @param str - The string to validate.
+     * @param options - Parsing options, for types that depend on the parsing context.
      * @returns `true` if the string is valid for this color type, otherwise `false`.
      */
-    isValid: (str: string) => boolean;
+    isValid: (str: string, options?: ParseOptions) => boolean;
 
     /** The intermediate "bridge" color space used for conversion. Must be another `<color-function>` identifier (e.g., `"rgb"`, `"xyz"`). */
     bridge: string;
@@ -81,9 +166,10 @@ export type ColorConverter = {
      * Parses a string representation of the color into its numeric coordinates.
      *
      * @param str - The string to parse.
+     * @param options - Parsing options, passed on to any nested colors.
      * @returns The numeric coordinates of the color.
      */
-    parse: (str: string) => number[];
+    parse: (str: string, options?: ParseOptions) => number[];
 } & (
     | {
           /**
@@ -123,6 +209,14 @@ export type ColorModelConverter = {
     /** The intermediate "bridge" color space used for conversion. Must be another `<color-function>` identifier (e.g., `"rgb"`, `"xyz"`). */
     bridge: string;
 
+    /**
+     * Linearization of a component, where 1 is SDR white. Only set for the color spaces of `<color()>` function.
+     *
+     * @param c - The component value to linearize.
+     * @returns The linearized component value.
+     */
+    toLinear?: (c: number) => number;
+
     /**
      * Converts coordinates from the native color function into the bridge color space.
      *
@@ -199,12 +293,112 @@ export type HueInterpolationMethod = "shorter" | "longer" | "increasing" | "decr
 /** Represents the set of valid easing function names. */
 export type Easing = keyof typeof EASINGS;
 
+/** Represents a spline interpolating the values of one component, evenly spaced, at a position from 0 to 1. */
+export type InterpolationFunction = (values: number[], t: number) => number;
+
+/** Describes the available methods for interpolating through multiple colors. */
+export type InterpolationMethod = keyof typeof interpolationMethods | "linear";
+
 /** Represents a gamut mapping method. */
-export type FitFunction = (coords: number[], model: ColorFunction) => number[];
+export type FitFunction = (coords: number[], model: ColorFunction, options: { headroom: number }) => number[];
 
 /** Describes the available methods for fitting the color into the target gamut. */
 export type FitMethod = keyof typeof fitMethods | "clip" | "none";
 
+/**
+ * Represents the dynamic range of the `<color()>` function output, after the CSS `dynamic-range-limit` property.
+ * - `"standard"`: components are fitted into the gamut of the color space.
+ * - `"no-limit"`: extended range, components outside the gamut are preserved.
+ */
+export type DynamicRangeLimit = "standard" | "no-limit";
+
+/** Describes how a color relates to a gamut, as returned by `gamutReport()`. */
+export type GamutReport = {
+    /** Whether the color lies within the standard dynamic range of the gamut. */
+    inGamut: boolean;
+
+    /** Headroom in stops above SDR white needed to display the color without clipping its brightest component. */
+    headroom: number;
+};
+
+/** Represents a contrast algorithm, receiving the foreground (text) color first and the background second. */
+export type ContrastFunction = (foreground: Color, background: Color) => number;
+
+/** Describes the available algorithms for measuring contrast. */
+export type ContrastMethod = keyof typeof contrastMethods;
+
+/** Options for measuring contrast between two colors. */
+export type ContrastOptions = {
+    /** The contrast algorithm to use. Defaults to `config.defaults.contrast`. */
+    algorithm?: ContrastMethod;
+};
+
+/** Represents a color vision deficiency: a dichromacy (`-opia`) or an anomalous trichromacy (`-omaly`). */
+export type CVDType = keyof typeof CVD_MATRICES | "protanomaly" | "deuteranomaly" | "tritanomaly" | "achromatomaly";
+
+/** Options for simulating a color vision deficiency. */
+export type SimulateOptions = {
+    /**
+     * How strong an anomalous trichromacy is, from 0 (normal vision) to 1 (dichromacy). Defaults to 1.
+     * Only applies to `-omaly` types; `-opia` and `-opsia` types always simulate full severity.
+     */
+    severity?: number;
+};
+
+/** Describes the available methods for measuring the color difference (ΔE) between two colors. */
+export type DeltaEMethod = "deltaEOK" | "deltaE76" | "deltaE94" | "deltaE2000" | "deltaEJz" | "deltaEITP";
+
+/** Options for reporting how distinguishable the colors of a palette are. */
+export type DistinguishabilityOptions = {
+    /** The ΔE method to measure pairs with. Defaults to `"deltaEOK"`. */
+    method?: DeltaEMethod;
+
+    /** Pairs whose ΔE falls below this value are offending. Defaults to only the closest pairs. */
+    threshold?: number;
+};
+
+/** Describes how distinguishable the colors of a palette are under each simulated vision. */
+export type DistinguishabilityReport = Record<
+    "normal" | "protanopia" | "deuteranopia" | "tritanopia",
+    {
+        /** The smallest ΔE between any two colors. */
+        min: number;
+
+        /** The offending pairs, as palette indices with their ΔE, from least to most distinct. */
+        pairs: { indices: [number, number]; deltaE: number }[];
+    }
+>;
+
+/** Resolves a custom property name (e.g., `"--brand"`) to its value, or `undefined` if it is not defined. */
+export type VariableResolver = Record<string, string> | ((name: string) => string | undefined);
+
+/** Options for parsing a color string. */
+export type ParseOptions = {
+    /** Keep the unresolved expression attached to the color, so it can be re-emitted by `to()`. */
+    preserve?: boolean;
+
+    /** Custom property values used to substitute `var()` references before parsing. */
+    vars?: VariableResolver;
+
+    /** The color `currentColor` resolves to. Defaults to `config.currentColor`. */
+    currentColor?: string;
+
+    /** The theme `light-dark()` and system colors resolve for. Defaults to `config.theme`. */
+    theme?: Config["theme"];
+
+    /** System colors for light and dark themes, taking precedence over `config.systemColors`. */
+    systemColors?: Config["systemColors"];
+};
+
+/** Represents the unresolved source of a parsed `<color>`, kept when parsing with `preserve: true`. */
+export type ColorExpression = {
+    /** The `<color>` type the source was recognized as (e.g., `"light-dark"`). */
+    type: ColorType;
+
+    /** The normalized source string, including any nested colors as written. */
+    source: string;
+};
+
 /** Represents options for retrieving the coordinates. */
 export type ComponentOptions = {
     /** Method for fitting the color into the target gamut. Defaults to `config.defaults.fit`. */
@@ -212,6 +406,9 @@ export type ComponentOptions = {
 
     /** Overrides the auto precision of the output color components, or `null` to disable rounding. */
     precision?: number | null;
+
+    /** The HDR headroom of the content in stops, used by tone mapping fit methods. Defaults to `config.defaults.headroom`. */
+    headroom?: number;
 };
 
 /** Options for formatting color components. */
@@ -221,6 +418,12 @@ export type FormattingOptions = ComponentOptions & {
 
     /** Output components with optional unit suffixes (e.g., `"hsl(250deg 74% 54%)"`). */
     units?: boolean;
+
+    /** Dynamic range of the `<color()>` function output. Defaults to `config.defaults.dynamicRangeLimit`. */
+    dynamicRangeLimit?: DynamicRangeLimit;
+
+    /** Whether to output the nearest system color, as in forced colors mode. Defaults to `config.forcedColors`. */
+    forcedColors?: boolean;
 };
 
 /** Options for generating a random Color instance. */
@@ -254,4 +457,83 @@ export type MixOptions = {
 
     /** Gamma correction value to use during mixing. */
     gamma?: number;
+
+    /** Whether to interpolate translucent colors with premultiplied alpha. Defaults to `true`. */
+    premultiplied?: boolean;
+};
+
+/** Options for mixing any number of colors. */
+export type MixAllOptions = Omit<MixOptions, "amount"> & {
+    /** The color model to mix in. Defaults to `"oklab"`, like `color-mix()`. */
+    in?: ColorModel;
+};
+
+/** Represents a gradient color stop, optionally positioned between 0 and 1. */
+export type GradientStop = Color | string | { color: Color | string; position?: number };
+
+/** Options for interpolating through multiple colors. */
+export type InterpolationOptions = {
+    /** The color model to interpolate in. Defaults to `"oklab"`, like CSS gradients. */
+    in?: ColorModel;
+
+    /** Method for interpolating hue values. */
+    hue?: HueInterpolationMethod;
+
+    /** Easing function to apply within each pair of adjacent colors. */
+    easing?: Easing | ((t: number) => number);
+
+    /** Method for interpolating through the colors. Defaults to `"linear"`, which matches `color-mix()`. */
+    interpolation?: InterpolationMethod;
+};
+
+/** Options for interpolating a gradient. */
+export type GradientOptions = InterpolationOptions & {
+    /** Number of evenly spaced colors to sample, including both ends. Defaults to `10`. */
+    steps?: number;
+};
+
+/** Represents a multi-stop color scale that maps numbers onto colors. */
+export type ColorScale = {
+    /**
+     * Maps a value within the domain to a color.
+     *
+     * @param value - The value to map. Values outside the domain are clamped.
+     * @returns The interpolated color.
+     */
+    (value: number): Color;
+
+    /** Sets the domain, either as `[min, max]` or one position per color. */
+    domain(domain: number[]): ColorScale;
+
+    /** Sets the color model to interpolate in. */
+    mode(model: ColorModel): ColorScale;
+
+    /** Quantizes the scale into equal-interval classes, or into classes split at the given breaks. */
+    classes(classes: number | number[]): ColorScale;
+
+    /**
+     * Trims the ends of the scale, as a fraction of its range, either evenly or as `[start, end]`. Each side must be
+     * non-negative and both must sum to less than 1.
+     */
+    padding(padding: number | [number, number]): ColorScale;
+
+    /** Sets the gamma correction value applied to the scale position. */
+    gamma(gamma: number): ColorScale;
+
+    /** Sets the method for interpolating hue values. */
+    hue(method: HueInterpolationMethod): ColorScale;
+
+    /** Sets the easing function applied within each pair of adjacent colors. */
+    easing(easing: Easing | ((t: number) => number)): ColorScale;
+
+    /** Sets the method for interpolating through the colors. */
+    interpolation(method: InterpolationMethod): ColorScale;
+
+    /**
+     * Samples evenly spaced colors across the domain.
+     *
+     * @param count - Number of colors to sample, including both ends.
+     * @returns The sampled colors.
+     */
+    colors(count: number): Color[];
 };
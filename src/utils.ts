@@ -1,5 +1,5 @@
 import { Color } from "./Color.js";
-import { config, systemColors } from "./config.js";
+import { config, systemColorPresets, systemColors } from "./config.js";
 import {
     colorBases,
     colorModels,
@@ -9,7 +9,7 @@ import {
     namedColors,
     alphaDef,
 } from "./converters.js";
-import { fitMethods } from "./math.js";
+import { EASINGS, contrastMethods, fitMethods, interpolationMethods } from "./math.js";
 import type {
     ColorBase,
     ColorConverter,
@@ -20,15 +20,20 @@ import type {
     ColorSpaceConverter,
     ColorType,
     ComponentDefinition,
+    ContrastFunction,
+    ContrastMethod,
     FitFunction,
     FitMethod,
     FormattingOptions,
+    InterpolationOptions,
     NamedColor,
     Plugin,
     Config,
     OutputType,
     SystemColor,
     Component,
+    VariableResolver,
+    ParseOptions,
 } from "./types.js";
 
 /** Global cache for internal Color operations. */
@@ -75,8 +80,13 @@ export function multiplyMatrices<A extends number[] | number[][], B extends numb
  * Merges user configuration into the existing app config.
  *
  * @param options - Partial configuration to apply.
+ * @throws If `systemColorPreset` names an unknown preset.
+ *
+ * @remarks
+ * Setting `systemColorPreset` resets `systemColors` to a copy of that preset before any `systemColors`
+ * in the same call are merged on top of it.
  */
-export function configure(options: Partial<Config>) {
+export function configure(options: { [K in keyof Config]?: Partial<Config[K]> }) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const merge = (target: any, source: any) => {
         for (const key in source) {
@@ -89,7 +99,49 @@ export function configure(options: Partial<Config>) {
         }
     };
 
-    merge(config, options);
+    const { systemColorPreset, ...rest } = options;
+
+    if (systemColorPreset !== undefined) {
+        const preset = systemColorPresets[systemColorPreset];
+        if (!preset) {
+            throw new Error(
+                `Invalid system color preset: must be ${Object.keys(systemColorPresets).join(", ")}, received '${systemColorPreset}'.`
+            );
+        }
+        config.systemColorPreset = systemColorPreset;
+        config.systemColors = Object.fromEntries(
+            Object.entries(preset).map(([key, pair]) => [key, pair.map((rgb) => rgb.slice())])
+        );
+    }
+
+    if (rest.viewingConditions) cache.delete("cam16-environment");
+    merge(config, rest);
+}
+
+/**
+ * Maps a color to the nearest system color, as user agents do in forced colors mode.
+ *
+ * @param color - The color to map.
+ * @param options - Optional parsing context providing the `theme` and `systemColors`.
+ * @returns A new `rgb` color holding the nearest system color by ΔEOK, with the original alpha.
+ */
+export function toForcedColor(color: Color, options: ParseOptions = {}) {
+    const { theme = config.theme } = options;
+    const palette = Object.values({ ...config.systemColors, ...options.systemColors });
+
+    let nearest = palette[0][theme === "light" ? 0 : 1];
+    let minDistance = Infinity;
+
+    for (const pair of palette) {
+        const rgb = pair[theme === "light" ? 0 : 1];
+        const distance = color.deltaEOK(new Color("rgb", rgb));
+        if (distance < minDistance) {
+            minDistance = distance;
+            nearest = rgb;
+        }
+    }
+
+    return new Color("rgb", [...nearest, color.coords[3]]);
 }
 
 /**
@@ -138,6 +190,7 @@ const getterRegistry = {
     },
     plugins: () => Object.keys(plugins),
     "fit-methods": () => ["none", "clip", ...Object.keys(fitMethods)] as FitMethod[],
+    "contrast-methods": () => Object.keys(contrastMethods) as ContrastMethod[],
 } as const;
 
 type Getter = keyof typeof getterRegistry;
@@ -161,6 +214,7 @@ const converterRegistry = {
     "color-space": { fn: registerColorSpace as (name: string, value: ColorSpaceConverter) => void },
     "named-color": { fn: registerNamedColor as (name: string, value: number[]) => void },
     "fit-method": { fn: registerFitMethod as (name: string, value: FitFunction) => void },
+    "contrast-method": { fn: registerContrastMethod as (name: string, value: ContrastFunction) => void },
     /* eslint-enable no-unused-vars */
 } as const;
 
@@ -492,6 +546,23 @@ export function registerFitMethod(name: string, method: FitFunction) {
     methods[n] = method;
 }
 
+/**
+ * Registers a new contrast algorithm under a specified name.
+ *
+ * @param name - Name for the contrast algorithm (whitespace → hyphens, lowercased).
+ * @param method - The contrast function, receiving the foreground color first and the background second.
+ * @throws If name exists or method is not a function.
+ */
+export function registerContrastMethod(name: string, method: ContrastFunction) {
+    const n = name.trim().replace(/\s+/g, "-").toLowerCase() as ContrastMethod;
+    const methods = contrastMethods as Record<string, ContrastFunction>;
+
+    if (n in methods) throw new Error(`Contrast method '${n}' already exists.`);
+    if (typeof method !== "function") throw new TypeError("Contrast method must be a function.");
+
+    methods[n] = method;
+}
+
 /**
  * Unregisters one or more color types from the registry.
  *
@@ -513,7 +584,7 @@ export function unregister(...types: string[]) {
  * Cleans and normalizes a CSS color string.
  *
  * @param color - The CSS color string.
- * @returns The normalized string.
+ * @returns The normalized string, lowercased except for custom property names, which are case-sensitive.
  */
 export function clean(color: string) {
     return color
@@ -524,7 +595,65 @@ export function clean(color: string) {
         .replace(/\s*,\s*/g, ", ")
         .replace(/ ,/g, ",")
         .replace(/calc\(NaN\)/g, "0")
-        .replace(/[A-Z]/g, (c) => String.fromCharCode(c.charCodeAt(0) + 32));
+        .replace(/(--[\w-]*)|[A-Z]/g, (c, name) => name ?? String.fromCharCode(c.charCodeAt(0) + 32));
+}
+
+/**
+ * Substitutes `var()` references in a string with the values of their custom properties.
+ *
+ * @param str - The string to substitute in.
+ * @param vars - An object of custom property values, or a function resolving a custom property name to its value.
+ * @param stack - The custom properties being substituted, used to detect cycles.
+ * @returns The string with every `var()` reference substituted.
+ * @throws If a reference has no value and no fallback, or custom properties reference each other in a cycle.
+ *
+ * @remarks
+ * Values and fallbacks are substituted recursively, so they may contain further `var()` references.
+ *
+ * @see {@link https://www.w3.org/TR/css-variables-1/#using-variables|CSS Custom Properties, Using Cascading Variables}
+ */
+export function substituteVars(str: string, vars: VariableResolver, stack: string[] = []): string {
+    const resolve = typeof vars === "function" ? vars : (name: string) => vars[name];
+
+    let result = "";
+    let i = 0;
+
+    while (i < str.length) {
+        const index = str.indexOf("var(", i);
+        if (index === -1 || (index > 0 && /[\w-]/.test(str[index - 1]))) {
+            const next = index === -1 ? str.length : index + 4;
+            result += str.slice(i, next);
+            i = next;
+            continue;
+        }
+
+        result += str.slice(i, index);
+
+        const { expression, end } = extractBalancedExpression(str, index + 3);
+        const source = str.slice(index + 3, end);
+        if (source.split("(").length !== source.split(")").length) {
+            throw new Error(`Malformed var() reference in '${str}'.`);
+        }
+
+        const inner = expression.slice(1, -1);
+        const comma = inner.indexOf(",");
+        const name = (comma === -1 ? inner : inner.slice(0, comma)).trim();
+        const fallback = comma === -1 ? undefined : inner.slice(comma + 1).trim();
+
+        if (!/^--[\w-]+$/.test(name)) throw new Error(`Invalid custom property name: '${name}'.`);
+        if (stack.includes(name)) {
+            throw new Error(`Cyclic custom property reference: ${[...stack, name].join(" -> ")}.`);
+        }
+
+        const value = resolve(name);
+        if (value !== undefined) result += substituteVars(value, vars, [...stack, name]);
+        else if (fallback !== undefined) result += substituteVars(fallback, vars, stack);
+        else throw new Error(`Custom property '${name}' is not defined and has no fallback.`);
+
+        i = end;
+    }
+
+    return result;
 }
 
 /**
@@ -587,16 +716,17 @@ export function normalize(component: number, value: ComponentDefinition["value"]
  *
  * @param coords - Color coordinates to fit/clip.
  * @param model - Target color model.
- * @param options - Optional settings: method ("clip", "none", etc.) and precision.
+ * @param options - Optional settings: method ("clip", "none", etc.), precision, and the HDR headroom of the content
+ * in stops for tone mapping methods.
  * @returns Fitted/clipped color coordinates.
  * @throws If component properties are missing or an invalid method is specified.
  */
 export function fit(
     coords: number[],
     model: ColorModel,
-    options: { method?: FitMethod; precision?: number | null } = {}
+    options: { method?: FitMethod; precision?: number | null; headroom?: number } = {}
 ) {
-    const { method = config.defaults.fit, precision } = options;
+    const { method = config.defaults.fit, precision, headroom = config.defaults.headroom } = options;
     const { components } = colorModels[model] as ColorModelConverter;
 
     const defs: ComponentDefinition[] = Object.values(components).reduce<ComponentDefinition[]>(
@@ -621,7 +751,7 @@ export function fit(
         if (!fn) {
             throw new Error(`Invalid gamut clipping method: must be ${Object.keys(fitMethods).join(", ")} or "none".`);
         }
-        clipped = fn(coords, model);
+        clipped = fn(coords, model, { headroom });
     }
 
     return clipped.map((v, i) => {
@@ -634,6 +764,369 @@ export function fit(
     });
 }
 
+/**
+ * Interpolates through a sequence of positioned colors.
+ *
+ * @param colors - The colors to interpolate through.
+ * @param positions - The ascending position of each color.
+ * @param t - The position to sample, clamped to the range of `positions`.
+ * @param options - Interpolation options.
+ * @returns The interpolated color, in the interpolation model.
+ * @throws If the interpolation method is invalid.
+ *
+ * @remarks
+ * - `"linear"` mixes the adjacent pair with `Color.mix()`, matching `color-mix()`.
+ * - Splines treat the colors as evenly spaced, mapping `t` into its segment first. Missing components take
+ *   the value of the nearest color that has one, hues are unwrapped following the hue interpolation method,
+ *   and the other components are premultiplied by alpha when any color is translucent.
+ */
+export function interpolate(colors: Color[], positions: number[], t: number, options: InterpolationOptions = {}) {
+    const { in: model = "oklab", hue = "shorter", easing = "linear", interpolation = "linear" } = options;
+
+    const last = colors.length - 1;
+    let k = 0;
+    while (k < last - 1 && t >= positions[k + 1]) k++;
+
+    const start = positions[k];
+    const end = positions[k + 1];
+    const amount = end > start ? Math.min(1, Math.max(0, (t - start) / (end - start))) : 1;
+
+    if (interpolation === "linear") {
+        return colors[k].in(model).mix(colors[k + 1], { amount, hue, easing }) as Color;
+    }
+
+    const spline = interpolationMethods[interpolation];
+    if (!spline) {
+        throw new Error(
+            `Invalid interpolation method: must be ${["linear", ...Object.keys(interpolationMethods)].join(", ")}.`
+        );
+    }
+
+    const ease = typeof easing === "function" ? easing : EASINGS[easing];
+    const s = (k + ease(amount)) / last;
+
+    const { components } = colorModels[model] as ColorModelConverter;
+    const hueIndex = Object.values(components).find((c) => c.value === "hue")?.index ?? -1;
+
+    const coords = colors.map((c) => (c.model === model ? c.coords.slice() : c.in(model).coords));
+
+    for (let i = 0; i < 4; i++) {
+        const values = coords.map((c) => c[i]);
+        const known = values.map((v, j) => j).filter((j) => !Number.isNaN(values[j]));
+        for (let j = 0; j < values.length; j++) {
+            if (!Number.isNaN(values[j])) continue;
+            const nearest = known.filter((n) => n < j).pop() ?? known.find((n) => n > j);
+            coords[j][i] = nearest === undefined ? 0 : values[nearest];
+        }
+    }
+
+    if (hueIndex !== -1) {
+        const wrap = (v: number) => ((v % 360) + 360) % 360;
+        for (let j = 1; j < coords.length; j++) {
+            const prev = coords[j - 1][hueIndex];
+            let d = wrap(coords[j][hueIndex] - prev);
+            if (hue === "shorter" || hue === "longer") d = d > 180 ? d - 360 : d;
+            if (hue === "longer") d = d >= 0 ? d - 360 : d + 360;
+            else if (hue === "decreasing") d = d > 0 ? d - 360 : d;
+            else if (hue !== "shorter" && hue !== "increasing") throw new Error(`Invalid hue interpolation: ${hue}`);
+            coords[j][hueIndex] = prev + d;
+        }
+    }
+
+    const premultiplied = coords.some((c) => c[3] < 1);
+    const sample = (i: number, weighted = false) =>
+        spline(
+            coords.map((c) => (weighted ? c[i] * c[3] : c[i])),
+            s
+        );
+    const alpha = premultiplied ? sample(3) : 1;
+
+    const result = [0, 1, 2].map((i) => {
+        if (i === hueIndex) return ((sample(i) % 360) + 360) % 360;
+        if (!premultiplied) return sample(i);
+        return alpha > 0 ? sample(i, true) / alpha : 0;
+    });
+
+    return new Color(model, [...result, Math.min(1, Math.max(0, alpha))]);
+}
+
+/**
+ * Evaluates the arithmetic of a `calc()` expression.
+ *
+ * @param expression - The expression inside `calc()`, with percentages and units already resolved to numbers.
+ * @param variables - Named values the expression may reference (e.g., channel keywords of a relative color).
+ * @returns The evaluated number.
+ * @throws If the expression is malformed, or references an unknown variable or function.
+ *
+ * @remarks
+ * Supports `+`, `-`, `*`, `/`, `%`, `**`, parentheses, the constants `pi`, `e` and `tau`, the keywords
+ * `infinity`, `-infinity` and `NaN`, and the functions of `Math` (e.g., `min()`, `sqrt()`, `atan2()`).
+ */
+export function evaluateCalc(expression: string, variables: Record<string, number> = {}) {
+    type T = { type: "number" | "identifier" | "operator"; value: number | string };
+    type N =
+        | { type: "number"; value: number }
+        | { type: "var"; name: string }
+        | { type: "binary"; op: string | number; left: N; right: N }
+        | { type: "unary"; op: string | number; arg: N }
+        | { type: "call"; func: string; args: N[] };
+
+    const tokenize = (s: string): T[] => {
+        const out: T[] = [];
+        for (let i = 0; i < s.length; ) {
+            const c = s[i];
+            if (/\s/.test(c)) {
+                i++;
+                continue;
+            }
+            if (s.slice(i, i + 2) === "**") {
+                out.push({ type: "operator", value: "**" });
+                i += 2;
+                continue;
+            }
+            if (/[0-9]/.test(c) || (c === "." && /[0-9]/.test(s[i + 1] || ""))) {
+                let num = "";
+                while (i < s.length && /[0-9.]/.test(s[i])) num += s[i++];
+                if (i < s.length && /[eE]/.test(s[i])) {
+                    num += s[i++];
+                    if (/[+-]/.test(s[i])) num += s[i++];
+                    while (i < s.length && /[0-9]/.test(s[i])) num += s[i++];
+                }
+                out.push({ type: "number", value: parseFloat(num) });
+                continue;
+            }
+            if (/[a-zA-Z_]/.test(c)) {
+                let id = "";
+                while (i < s.length && /[a-zA-Z0-9_]/.test(s[i])) id += s[i++];
+                out.push({ type: "identifier", value: id });
+                continue;
+            }
+            if ("+-*/%(),".includes(c)) {
+                out.push({ type: "operator", value: c });
+                i++;
+                continue;
+            }
+            throw new Error(`Unexpected character: ${c}`);
+        }
+        return out;
+    };
+
+    const parse = (tokens: T[]): N => {
+        let pos = 0;
+        const cur = (): T | null => (pos < tokens.length ? tokens[pos] : null);
+        const nxt = (): T => {
+            if (pos >= tokens.length) throw new Error("Unexpected end of input");
+            return tokens[pos++];
+        };
+        const expect = (v: string) => {
+            const t = cur();
+            if (!t || t.value !== v) {
+                throw new Error(`Expected "${v}" but got "${t ? t.value : "end of input"}`);
+            }
+            nxt();
+        };
+
+        const parsePrimary = (): N => {
+            const t = cur();
+            if (!t) throw new Error("Unexpected end of input");
+            if (t.type === "number") {
+                nxt();
+                return { type: "number", value: t.value as number };
+            }
+            if (t.type === "identifier") {
+                nxt();
+                if (cur() && cur()!.value === "(") {
+                    nxt();
+                    const args: N[] = [];
+                    if (cur() && cur()!.value !== ")") {
+                        args.push(parseAdd());
+                        while (cur() && cur()!.value === ",") {
+                            nxt();
+                            args.push(parseAdd());
+                        }
+                    }
+                    expect(")");
+                    return { type: "call", func: t.value as string, args };
+                }
+                return { type: "var", name: t.value as string };
+            }
+            if (t.value === "(") {
+                nxt();
+                const e = parseAdd();
+                expect(")");
+                return e;
+            }
+            throw new Error(`Unexpected token: ${t.value}`);
+        };
+
+        const parseUnary = (): N => {
+            if (cur() && (cur()!.value === "+" || cur()!.value === "-")) {
+                const op = nxt().value as string;
+                return { type: "unary", op, arg: parseUnary() };
+            }
+            return parsePrimary();
+        };
+
+        const parsePower = (): N => {
+            let left = parseUnary();
+            while (cur() && cur()!.value === "**") {
+                const op = nxt().value as string;
+                left = { type: "binary", op, left, right: parseUnary() };
+            }
+            return left;
+        };
+
+        const parseMul = (): N => {
+            let left = parsePower();
+            while (cur() && ["*", "/", "%"].includes(String(cur()!.value))) {
+                const op = nxt().value as string;
+                left = { type: "binary", op, left, right: parsePower() };
+            }
+            return left;
+        };
+
+        const parseAdd = (): N => {
+            let left = parseMul();
+            while (cur() && (cur()!.value === "+" || cur()!.value === "-")) {
+                const op = nxt().value as string;
+                left = { type: "binary", op, left, right: parseMul() };
+            }
+            return left;
+        };
+
+        const ast = parseAdd();
+        if (pos < tokens.length) {
+            throw new Error(
+                `Extra tokens after expression: ${tokens
+                    .slice(pos)
+                    .map((t) => t.value)
+                    .join(" ")}`
+            );
+        }
+        return ast;
+    };
+
+    // eslint-disable-next-line no-unused-vars
+    const evaluate = (ast: N, env: Record<string, number | ((...a: number[]) => number)>): number => {
+        switch (ast.type) {
+            case "number":
+                return ast.value;
+            case "var": {
+                const v = env[ast.name];
+                if (v === undefined) throw new Error(`Unknown variable: ${ast.name}`);
+                if (typeof v === "function") {
+                    throw new Error(`Expected variable but found function: ${ast.name}`);
+                }
+                return v as number;
+            }
+            case "binary": {
+                const L = evaluate(ast.left, env);
+                const R = evaluate(ast.right, env);
+                switch (ast.op) {
+                    case "+":
+                        return L + R;
+                    case "-":
+                        return L - R;
+                    case "*":
+                        return L * R;
+                    case "/":
+                        return L / R;
+                    case "%":
+                        return L % R;
+                    case "**":
+                        return L ** R;
+                    default:
+                        throw new Error(`Unknown binary operator: ${ast.op}`);
+                }
+            }
+            case "unary": {
+                const v = evaluate(ast.arg, env);
+                switch (ast.op) {
+                    case "+":
+                        return +v;
+                    case "-":
+                        return -v;
+                    default:
+                        throw new Error(`Unknown unary operator: ${ast.op}`);
+                }
+            }
+            case "call": {
+                const fn = env[ast.func];
+                if (typeof fn !== "function") throw new Error(`Unknown function: ${ast.func}`);
+                return (fn as (...a: number[]) => number)(...ast.args.map((a) => evaluate(a, env))); // eslint-disable-line no-unused-vars
+            }
+            default: {
+                throw new Error(`Unknown AST node type: ${(ast as any).type}`); // eslint-disable-line @typescript-eslint/no-explicit-any
+            }
+        }
+    };
+
+    const inner = expression.trim();
+    if (inner === "infinity") return Infinity;
+    if (inner === "-infinity") return -Infinity;
+    if (inner === "NaN") return NaN;
+
+    const {
+        PI: pi,
+        E: e,
+        pow,
+        sqrt,
+        sin,
+        cos,
+        tan,
+        asin,
+        acos,
+        atan,
+        atan2,
+        exp,
+        log,
+        log10,
+        log2,
+        abs,
+        min,
+        max,
+        hypot,
+        round,
+        ceil,
+        floor,
+        sign,
+        trunc,
+        random,
+    } = Math;
+
+    const env = {
+        ...variables,
+        pi,
+        e,
+        tau: pi * 2,
+        pow,
+        sqrt,
+        sin,
+        cos,
+        tan,
+        asin,
+        acos,
+        atan,
+        atan2,
+        exp,
+        log,
+        log10,
+        log2,
+        abs,
+        min,
+        max,
+        hypot,
+        round,
+        ceil,
+        floor,
+        sign,
+        trunc,
+        random,
+    };
+
+    return evaluate(parse(tokenize(inner)), env);
+}
+
 /**
  * Converts a color model converter to `<color>` converter.
  *
@@ -672,215 +1165,14 @@ export function modelConverterToColorConverter(name: string, converter: ColorMod
             const value = parseFloat(token);
             if (isNaN(value)) throw new Error(`Invalid hue value: '${token}'.`);
             if (token.slice(-3) === "deg") return value;
-            if (token.slice(-3) === "rad") return value * (180 / pi);
+            if (token.slice(-3) === "rad") return value * (180 / Math.PI);
             if (token.slice(-4) === "grad") return value * 0.9;
             if (token.slice(-4) === "turn") return value * 360;
             return value;
         };
 
         const parseCalc = (token: string, _min: number, _max: number) => {
-            type T = { type: "number" | "identifier" | "operator"; value: number | string };
-            type N =
-                | { type: "number"; value: number }
-                | { type: "var"; name: string }
-                | { type: "binary"; op: string | number; left: N; right: N }
-                | { type: "unary"; op: string | number; arg: N }
-                | { type: "call"; func: string; args: N[] };
-
-            const tokenize = (s: string): T[] => {
-                const out: T[] = [];
-                for (let i = 0; i < s.length; ) {
-                    const c = s[i];
-                    if (/\s/.test(c)) {
-                        i++;
-                        continue;
-                    }
-                    if (s.slice(i, i + 2) === "**") {
-                        out.push({ type: "operator", value: "**" });
-                        i += 2;
-                        continue;
-                    }
-                    if (/[0-9]/.test(c) || (c === "." && /[0-9]/.test(s[i + 1] || ""))) {
-                        let num = "";
-                        while (i < s.length && /[0-9.]/.test(s[i])) num += s[i++];
-                        if (i < s.length && /[eE]/.test(s[i])) {
-                            num += s[i++];
-                            if (/[+-]/.test(s[i])) num += s[i++];
-                            while (i < s.length && /[0-9]/.test(s[i])) num += s[i++];
-                        }
-                        out.push({ type: "number", value: parseFloat(num) });
-                        continue;
-                    }
-                    if (/[a-zA-Z_]/.test(c)) {
-                        let id = "";
-                        while (i < s.length && /[a-zA-Z0-9_]/.test(s[i])) id += s[i++];
-                        out.push({ type: "identifier", value: id });
-                        continue;
-                    }
-                    if ("+-*/%(),".includes(c)) {
-                        out.push({ type: "operator", value: c });
-                        i++;
-                        continue;
-                    }
-                    throw new Error(`Unexpected character: ${c}`);
-                }
-                return out;
-            };
-
-            const parse = (tokens: T[]): N => {
-                let pos = 0;
-                const cur = (): T | null => (pos < tokens.length ? tokens[pos] : null);
-                const nxt = (): T => {
-                    if (pos >= tokens.length) throw new Error("Unexpected end of input");
-                    return tokens[pos++];
-                };
-                const expect = (v: string) => {
-                    const t = cur();
-                    if (!t || t.value !== v) {
-                        throw new Error(`Expected "${v}" but got "${t ? t.value : "end of input"}`);
-                    }
-                    nxt();
-                };
-
-                const parsePrimary = (): N => {
-                    const t = cur();
-                    if (!t) throw new Error("Unexpected end of input");
-                    if (t.type === "number") {
-                        nxt();
-                        return { type: "number", value: t.value as number };
-                    }
-                    if (t.type === "identifier") {
-                        nxt();
-                        if (cur() && cur()!.value === "(") {
-                            nxt();
-                            const args: N[] = [];
-                            if (cur() && cur()!.value !== ")") {
-                                args.push(parseAdd());
-                                while (cur() && cur()!.value === ",") {
-                                    nxt();
-                                    args.push(parseAdd());
-                                }
-                            }
-                            expect(")");
-                            return { type: "call", func: t.value as string, args };
-                        }
-                        return { type: "var", name: t.value as string };
-                    }
-                    if (t.value === "(") {
-                        nxt();
-                        const e = parseAdd();
-                        expect(")");
-                        return e;
-                    }
-                    throw new Error(`Unexpected token: ${t.value}`);
-                };
-
-                const parseUnary = (): N => {
-                    if (cur() && (cur()!.value === "+" || cur()!.value === "-")) {
-                        const op = nxt().value as string;
-                        return { type: "unary", op, arg: parseUnary() };
-                    }
-                    return parsePrimary();
-                };
-
-                const parsePower = (): N => {
-                    let left = parseUnary();
-                    while (cur() && cur()!.value === "**") {
-                        const op = nxt().value as string;
-                        left = { type: "binary", op, left, right: parseUnary() };
-                    }
-                    return left;
-                };
-
-                const parseMul = (): N => {
-                    let left = parsePower();
-                    while (cur() && ["*", "/", "%"].includes(String(cur()!.value))) {
-                        const op = nxt().value as string;
-                        left = { type: "binary", op, left, right: parsePower() };
-                    }
-                    return left;
-                };
-
-                const parseAdd = (): N => {
-                    let left = parseMul();
-                    while (cur() && (cur()!.value === "+" || cur()!.value === "-")) {
-                        const op = nxt().value as string;
-                        left = { type: "binary", op, left, right: parseMul() };
-                    }
-                    return left;
-                };
-
-                const ast = parseAdd();
-                if (pos < tokens.length) {
-                    throw new Error(
-                        `Extra tokens after expression: ${tokens
-                            .slice(pos)
-                            .map((t) => t.value)
-                            .join(" ")}`
-                    );
-                }
-                return ast;
-            };
-
-            // eslint-disable-next-line no-unused-vars
-            const evaluate = (ast: N, env: Record<string, number | ((...a: number[]) => number)>): number => {
-                switch (ast.type) {
-                    case "number":
-                        return ast.value;
-                    case "var": {
-                        const v = env[ast.name];
-                        if (v === undefined) throw new Error(`Unknown variable: ${ast.name}`);
-                        if (typeof v === "function") {
-                            throw new Error(`Expected variable but found function: ${ast.name}`);
-                        }
-                        return v as number;
-                    }
-                    case "binary": {
-                        const L = evaluate(ast.left, env);
-                        const R = evaluate(ast.right, env);
-                        switch (ast.op) {
-                            case "+":
-                                return L + R;
-                            case "-":
-                                return L - R;
-                            case "*":
-                                return L * R;
-                            case "/":
-                                return L / R;
-                            case "%":
-                                return L % R;
-                            case "**":
-                                return L ** R;
-                            default:
-                                throw new Error(`Unknown binary operator: ${ast.op}`);
-                        }
-                    }
-                    case "unary": {
-                        const v = evaluate(ast.arg, env);
-                        switch (ast.op) {
-                            case "+":
-                                return +v;
-                            case "-":
-                                return -v;
-                            default:
-                                throw new Error(`Unknown unary operator: ${ast.op}`);
-                        }
-                    }
-                    case "call": {
-                        const fn = env[ast.func];
-                        if (typeof fn !== "function") throw new Error(`Unknown function: ${ast.func}`);
-                        return (fn as (...a: number[]) => number)(...ast.args.map((a) => evaluate(a, env))); // eslint-disable-line no-unused-vars
-                    }
-                    default: {
-                        throw new Error(`Unknown AST node type: ${(ast as any).type}`); // eslint-disable-line @typescript-eslint/no-explicit-any
-                    }
-                }
-            };
-
             let inner = token.slice(5, -1).trim();
-            if (inner === "infinity") return Infinity;
-            if (inner === "-infinity") return -Infinity;
-            if (inner === "NaN") return NaN;
 
             inner = inner.replace(/(\d+(\.\d+)?)%/g, (m) => {
                 if (relative === true) {
@@ -897,41 +1189,8 @@ export function modelConverterToColorConverter(name: string, converter: ColorMod
                 return String(parseHue(`${parseFloat(num)}${unit}`));
             });
 
-            const caclEnv = {
-                ...base,
-                pi,
-                e,
-                tau: pi * 2,
-                pow,
-                sqrt,
-                sin,
-                cos,
-                tan,
-                asin,
-                acos,
-                atan,
-                atan2,
-                exp,
-                log,
-                log10,
-                log2,
-                abs,
-                min,
-                max,
-                hypot,
-                round,
-                ceil,
-                floor,
-                sign,
-                trunc,
-                random,
-            };
-
             try {
-                const tokens = tokenize(inner);
-                const ast = parse(tokens);
-                const result = evaluate(ast, caclEnv);
-                return result as number;
+                return evaluateCalc(inner, base);
             } catch (err) {
                 throw new Error(`Evaluation error: ${err}`);
             }
@@ -995,7 +1254,7 @@ export function modelConverterToColorConverter(name: string, converter: ColorMod
         throw new Error(`Unable to parse component token: ${token}`);
     };
 
-    const parseAST = (ast: AST) => {
+    const parseAST = (ast: AST, options: ParseOptions) => {
         const { fn, space, fromOrigin, c1, c2, c3, alpha, commaSeparated } = ast;
 
         if (commaSeparated && supportsLegacy !== true) {
@@ -1017,7 +1276,7 @@ export function modelConverterToColorConverter(name: string, converter: ColorMod
                 }
             }
 
-            const base = Color.from(fromOrigin)
+            const base = Color.from(fromOrigin, options)
                 .in(colorSpace as ColorModel)
                 .toObject({ fit: "none", precision: null });
 
@@ -1305,34 +1564,6 @@ export function modelConverterToColorConverter(name: string, converter: ColorMod
         alpha: alphaDef,
     } as Record<Component<ColorModel> | "alpha", ComponentDefinition & { index: number }>;
 
-    const {
-        PI: pi,
-        E: e,
-        pow,
-        sqrt,
-        sin,
-        cos,
-        tan,
-        asin,
-        acos,
-        atan,
-        atan2,
-        exp,
-        log,
-        log10,
-        log2,
-        abs,
-        min,
-        max,
-        hypot,
-        round,
-        ceil,
-        floor,
-        sign,
-        trunc,
-        random,
-    } = Math;
-
     return {
         isValid: (str: string) => {
             const { alphaVariant = name } = converter;
@@ -1356,19 +1587,27 @@ export function modelConverterToColorConverter(name: string, converter: ColorMod
 
         toBridge: (coords: number[]) => [...toBridge(coords.slice(0, 3)), coords[3] ?? 1],
 
-        parse: (str: string) => {
+        parse: (str: string, options: ParseOptions = {}) => {
             const tokens = tokenize(str);
             const ast = getAST(tokens);
-            const coords = parseAST(ast);
+            const coords = parseAST(ast, options);
             return [...coords.slice(0, 3), coords[3] ?? 1];
         },
 
         fromBridge: (coords: number[]) => [...fromBridge(coords), coords[3] ?? 1],
 
         format: ([c1, c2, c3, a = 1]: number[], options: FormattingOptions = {}) => {
-            const { legacy = false, fit: fitMethod = config.defaults.fit, precision, units = false } = options;
-
-            const fitted = fit([c1, c2, c3], name as ColorModel, { method: fitMethod, precision });
+            const {
+                legacy = false,
+                fit: fitMethod = config.defaults.fit,
+                precision,
+                headroom,
+                units = false,
+                dynamicRangeLimit = config.defaults.dynamicRangeLimit,
+            } = options;
+
+            const method = name in colorSpaces && dynamicRangeLimit === "no-limit" ? "none" : fitMethod;
+            const fitted = fit([c1, c2, c3], name as ColorModel, { method, precision, headroom });
 
             const formatted = [...fitted, a].map((c, index) => {
                 const norm = normalize(c, Object.values(defs)[index].value);
@@ -1415,6 +1654,7 @@ export function spaceConverterToModelConverter<const C extends readonly string[]
             converter.components.map((comp, index) => [comp, { index, value: [0, 1], precision: 5 }])
         ) as Record<C[number], ComponentDefinition>,
         bridge: converter.bridge,
+        toLinear,
         toBridge: (coords: number[]) => {
             return multiplyMatrices(
                 toBridgeMatrix,